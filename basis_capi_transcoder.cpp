@@ -127,4 +127,98 @@ bool ktx2_transcoder_transcode_image_level(
         fmt, decode_flags, output_row_pitch_in_blocks_or_pixels, output_rows_in_pixels, channel0, channel1, pState);
 }
 
+EMSCRIPTEN_KEEPALIVE
+basist::ktx2_transcoder_state* ktx2_transcoder_state_new()
+{
+    return new basist::ktx2_transcoder_state();
+}
+
+EMSCRIPTEN_KEEPALIVE
+void ktx2_transcoder_state_delete(basist::ktx2_transcoder_state* self)
+{
+    delete self;
+}
+
+EMSCRIPTEN_KEEPALIVE
+void ktx2_transcoder_state_clear(basist::ktx2_transcoder_state* self)
+{
+    self->clear();
+}
+
+EMSCRIPTEN_KEEPALIVE
+basist::basisu_transcoder* basisu_transcoder_new()
+{
+    return new basist::basisu_transcoder();
+}
+
+EMSCRIPTEN_KEEPALIVE
+void basisu_transcoder_delete(basist::basisu_transcoder* self)
+{
+    delete self;
+}
+
+EMSCRIPTEN_KEEPALIVE
+bool basisu_transcoder_validate_header(const basist::basisu_transcoder* self, const void* pData, uint32_t data_size)
+{
+    return self->validate_header(pData, data_size);
+}
+
+EMSCRIPTEN_KEEPALIVE
+basist::basis_texture_type basisu_transcoder_get_texture_type(const basist::basisu_transcoder* self, const void* pData, uint32_t data_size)
+{
+    return self->get_texture_type(pData, data_size);
+}
+
+EMSCRIPTEN_KEEPALIVE
+basist::basis_tex_format basisu_transcoder_get_basis_tex_format(const basist::basisu_transcoder* self, const void* pData, uint32_t data_size)
+{
+    return self->get_basis_tex_format(pData, data_size);
+}
+
+EMSCRIPTEN_KEEPALIVE
+uint32_t basisu_transcoder_get_total_images(const basist::basisu_transcoder* self, const void* pData, uint32_t data_size)
+{
+    return self->get_total_images(pData, data_size);
+}
+
+EMSCRIPTEN_KEEPALIVE
+uint32_t basisu_transcoder_get_total_image_levels(const basist::basisu_transcoder* self, const void* pData, uint32_t data_size, uint32_t image_index)
+{
+    return self->get_total_image_levels(pData, data_size, image_index);
+}
+
+EMSCRIPTEN_KEEPALIVE
+bool basisu_transcoder_get_image_level_info(const basist::basisu_transcoder* self, const void* pData, uint32_t data_size, basist::basisu_image_level_info& level_info, uint32_t image_index, uint32_t level_index)
+{
+    return self->get_image_level_info(pData, data_size, level_info, image_index, level_index);
+}
+
+EMSCRIPTEN_KEEPALIVE
+bool basisu_transcoder_start_transcoding(basist::basisu_transcoder* self, const void* pData, uint32_t data_size)
+{
+    return self->start_transcoding(pData, data_size);
+}
+
+EMSCRIPTEN_KEEPALIVE
+bool basisu_transcoder_stop_transcoding(basist::basisu_transcoder* self)
+{
+    return self->stop_transcoding();
+}
+
+EMSCRIPTEN_KEEPALIVE
+bool basisu_transcoder_transcode_image_level(
+    basist::basisu_transcoder* self,
+    const void* pData, uint32_t data_size,
+    uint32_t image_index, uint32_t level_index,
+    void* pOutput_blocks, uint32_t output_blocks_buf_size_in_blocks_or_pixels,
+    basist::transcoder_texture_format fmt,
+    uint32_t decode_flags, uint32_t output_row_pitch_in_blocks_or_pixels, uint32_t output_rows_in_pixels, int channel0, int channel1,
+    basist::basisu_transcoder_state *pState)
+{
+    return self->transcode_image_level(
+        pData, data_size, image_index, level_index,
+        pOutput_blocks, output_blocks_buf_size_in_blocks_or_pixels,
+        fmt, decode_flags, output_row_pitch_in_blocks_or_pixels, pState, output_rows_in_pixels, channel0, channel1);
+}
+
 }
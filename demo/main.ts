@@ -6,8 +6,10 @@ import {
   detectBestFormat,
   isFormatSupported,
   getFormatName,
-  TranscodeResult
+  TranscodeResult,
+  TranscodeError
 } from '@h00w/basis-universal-transcoder';
+import { getThreeTextureFormat } from '@h00w/basis-universal-transcoder/three';
 import * as THREE from 'three';
 import wasmUrl from '/basis_capi_transcoder.wasm?url';
 
@@ -166,60 +168,28 @@ class BasisDemo {
 
       const startTime = performance.now();
 
-      if (!this.currentTranscoder.startTranscoding()) {
-        throw new Error('Failed to start transcoding');
-      }
+      this.currentTranscoder.startTranscodingOrThrow();
 
-      const result = this.currentTranscoder.transcodeImageLevel({
+      const result = this.currentTranscoder.transcodeImageLevelOrThrow({
         format: targetFormat,
         level: mipLevel
       });
 
       const endTime = performance.now();
 
-      if (!result) {
-        throw new Error('Transcoding failed');
-      }
-
       this.displayResult(result, targetFormat, endTime - startTime);
       this.updateStatus('Transcoding completed successfully');
 
     } catch (error) {
       console.error('Transcoding error:', error);
-      this.updateStatus('Transcoding failed', true);
+      this.updateStatus(error instanceof TranscodeError ? `Transcoding failed: ${error.code}` : 'Transcoding failed', true);
     }
   }
 
   private getThreeJSFormat(format: TranscoderTextureFormat): THREE.CompressedPixelFormat | null {
-    // 映射 TranscoderTextureFormat 到 Three.js 压缩纹理格式
-    switch (format) {
-      case TranscoderTextureFormat.cTFBC1_RGB:
-        return THREE.RGB_S3TC_DXT1_Format;
-      case TranscoderTextureFormat.cTFBC3_RGBA:
-        return THREE.RGBA_S3TC_DXT5_Format;
-      case TranscoderTextureFormat.cTFBC4_R:
-        return THREE.RED_RGTC1_Format;
-      case TranscoderTextureFormat.cTFBC5_RG:
-        return THREE.RED_GREEN_RGTC2_Format;
-      case TranscoderTextureFormat.cTFBC7_RGBA:
-        return THREE.RGBA_BPTC_Format;
-      case TranscoderTextureFormat.cTFASTC_4x4_RGBA:
-        return THREE.RGBA_ASTC_4x4_Format;
-      case TranscoderTextureFormat.cTFPVRTC1_4_RGB:
-        return THREE.RGB_PVRTC_4BPPV1_Format;
-      case TranscoderTextureFormat.cTFPVRTC1_4_RGBA:
-        return THREE.RGBA_PVRTC_4BPPV1_Format;
-      case TranscoderTextureFormat.cTFPVRTC2_4_RGB:
-        return THREE.RGB_PVRTC_2BPPV1_Format;
-      case TranscoderTextureFormat.cTFPVRTC2_4_RGBA:
-        return THREE.RGBA_PVRTC_2BPPV1_Format;
-      case TranscoderTextureFormat.cTFETC2_EAC_R11:
-        return THREE.RED_RGTC1_Format;
-      case TranscoderTextureFormat.cTFETC2_EAC_RG11:
-        return THREE.RED_GREEN_RGTC2_Format;
-      default:
-        return null; // 不支持的压缩格式或未压缩格式
-    }
+    // 使用包内的映射，未压缩格式返回 null
+    const info = getThreeTextureFormat(format);
+    return info?.compressed ? info.format as THREE.CompressedPixelFormat : null;
   }
 
   private displayResult(result: TranscodeResult, format: TranscoderTextureFormat, duration: number) {
@@ -304,7 +274,7 @@ class BasisDemo {
         threeJSFormat
       );
       texture.needsUpdate = true;
-      texture.colorSpace = THREE.SRGBColorSpace;
+      texture.colorSpace = this.currentTranscoder?.getDataFormatDescriptor()?.isSRGB ? THREE.SRGBColorSpace : THREE.NoColorSpace;
 
       console.log(`Created compressed texture with format: ${threeJSFormat}`);
     } else if (format === TranscoderTextureFormat.cTFRGBA32) {
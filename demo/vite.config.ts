@@ -9,6 +9,8 @@ export default defineConfig({
   publicDir: resolve(__dirname, '../packages/basis-universal-transcoder/public'),
   resolve: {
     alias: {
+      // 子入口需要排在主入口之前
+      '@h00w/basis-universal-transcoder/three': resolve(__dirname, '../packages/basis-universal-transcoder/src/three.ts'),
       '@h00w/basis-universal-transcoder': resolve(__dirname, '../packages/basis-universal-transcoder/src/index.ts'),
     },
   },
@@ -0,0 +1,185 @@
+import { BasisModuleFuncs } from './index';
+import { BasisTextureFormat, DecodeFlags, TranscodeResult, TranscoderTextureFormat } from './types';
+import { KTX2Transcoder, KTX2TranscoderState } from './transcoder';
+import { KTX2AnimData } from './key-value-data';
+
+export interface DecodeFrameOptions {
+  /** Mip level, defaults to 0 */
+  level?: number;
+  decodeFlags?: DecodeFlags;
+}
+
+/**
+ * Player for KTX2 texture video (animated KTX2).
+ *
+ * The frames are the array layers of the texture, timed by the `KTXanimData` key.
+ * ETC1S video stores P-frames that only encode the difference to the previous frame, so frames
+ * have to be decoded in sequence with a shared ktx2_transcoder_state. decodeFrame() keeps track
+ * of the last decoded frame and, when asked for any frame other than the next one, seeks back
+ * to the nearest I-frame and decodes forward from there. UASTC frames are independent.
+ */
+export class AnimatedKTX2 {
+  private readonly transcoder: KTX2Transcoder;
+  private readonly state: KTX2TranscoderState;
+  private animData: KTX2AnimData | null = null;
+  private isETC1S = false;
+  private frames = 0;
+  private lastFrame = -1;
+  private lastLevel = -1;
+  private disposed = false;
+
+  constructor(funcs: BasisModuleFuncs) {
+    this.transcoder = new KTX2Transcoder(funcs);
+    this.state = new KTX2TranscoderState(funcs);
+  }
+
+  /**
+   * Initialize with KTX2 file data. Also starts transcoding.
+   *
+   * @param data KTX2 file data as Uint8Array
+   * @returns true if initialization succeeded, false otherwise
+   */
+  init(data: Uint8Array): boolean {
+    this.checkDisposed();
+    this.lastFrame = -1;
+    this.lastLevel = -1;
+    this.state.clear();
+
+    const transcoder = this.transcoder;
+    if (!transcoder.init(data) || !transcoder.startTranscoding()) {
+      this.frames = 0;
+      this.animData = null;
+      return false;
+    }
+    this.frames = Math.max(1, transcoder.getHeaderInfo().layers);
+    this.isETC1S = transcoder.getBasisTextureFormat() === BasisTextureFormat.cETC1S;
+    this.animData = transcoder.getKeyValueData().animData;
+    return true;
+  }
+
+  /** true if the file has a `KTXanimData` key */
+  get isAnimated(): boolean {
+    return this.animData !== null;
+  }
+
+  /** Number of frames (the array layer count). Valid after init(). */
+  get frameCount(): number {
+    return this.frames;
+  }
+
+  /** Duration of each frame in units of timescale, 0 if the file has no `KTXanimData` */
+  get duration(): number {
+    return this.animData?.duration ?? 0;
+  }
+
+  /** Number of time units per second, 0 if the file has no `KTXanimData` */
+  get timescale(): number {
+    return this.animData?.timescale ?? 0;
+  }
+
+  /** Number of times to loop, 0 means loop forever */
+  get loopCount(): number {
+    return this.animData?.loopCount ?? 0;
+  }
+
+  /** Duration of each frame in seconds, 0 if the file has no `KTXanimData` */
+  get frameDuration(): number {
+    return this.timescale ? this.duration / this.timescale : 0;
+  }
+
+  /**
+   * Frame index to show at the given playback time, honoring loopCount
+   *
+   * @param seconds Time since playback started
+   */
+  getFrameAtTime(seconds: number): number {
+    const frameDuration = this.frameDuration;
+    if (!frameDuration || this.frames === 0) {
+      return 0;
+    }
+    const frame = Math.floor(seconds / frameDuration);
+    const loopCount = this.loopCount;
+    if (loopCount > 0 && frame >= this.frames * loopCount) {
+      return this.frames - 1;
+    }
+    return frame % this.frames;
+  }
+
+  /**
+   * Whether the frame is an I-frame, which can be decoded without the previous frame
+   */
+  isIFrame(index: number, level = 0): boolean {
+    this.checkDisposed();
+    if (!this.isETC1S) {
+      return true;
+    }
+    return this.transcoder.getImageLevelInfo(level, index, 0)?.iframeFlag ?? false;
+  }
+
+  /**
+   * Decode a frame, seeking back to the nearest I-frame if it does not directly follow the last decoded frame
+   *
+   * ⚠️ IMPORTANT: The returned TranscodeResult.data references WASM-managed memory
+   * and is only valid until the next call, copy it if you need to keep it.
+   *
+   * @param index Frame index
+   * @param format Target format
+   * @param options Mip level and decode flags
+   * @returns TranscodeResult with image data, or null if decoding failed
+   */
+  decodeFrame(index: number, format: TranscoderTextureFormat, options: DecodeFrameOptions = {}): TranscodeResult | null {
+    this.checkDisposed();
+    const { level = 0, decodeFlags } = options;
+    if (index < 0 || index >= this.frames) {
+      return null;
+    }
+
+    if (!this.isETC1S) {
+      return this.transcoder.transcodeImageLevel({ format, level, layer: index, decodeFlags });
+    }
+
+    let first = index;
+    if (level !== this.lastLevel || index !== this.lastFrame + 1) {
+      while (first > 0 && !this.isIFrame(first, level)) {
+        first--;
+      }
+      this.state.clear();
+    }
+
+    // Forget the position until the whole sequence is decoded, a failure leaves the state undefined
+    this.lastFrame = -1;
+    this.lastLevel = -1;
+
+    let result: TranscodeResult | null = null;
+    for (let frame = first; frame <= index; frame++) {
+      result = this.transcoder.transcodeImageLevel({ format, level, layer: frame, decodeFlags }, this.state);
+      if (!result) {
+        return null;
+      }
+    }
+
+    this.lastFrame = index;
+    this.lastLevel = level;
+    return result;
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.transcoder.dispose();
+    this.state.dispose();
+    this.animData = null;
+    this.frames = 0;
+    this.disposed = true;
+  }
+
+  private checkDisposed(): void {
+    if (this.disposed) {
+      throw new Error('AnimatedKTX2 already disposed.');
+    }
+  }
+}
@@ -0,0 +1,599 @@
+/**
+ * ASTC 4x4 LDR block decoding, used by decodeToRGBA()
+ *
+ * Implements the LDR profile for the 4x4 footprint: void extent blocks, 1-4 partitions,
+ * dual plane, weight grid infill and every LDR color endpoint mode. Blocks the profile
+ * rejects, including HDR endpoint modes, decode to the error color (magenta).
+ */
+
+const errorColor = [255, 0, 255, 255];
+
+/** Levels of the ISE ranges in ascending order, with their trit/quint/bit composition */
+const iseRanges = [
+  { levels: 2, trits: 0, quints: 0, bits: 1 },
+  { levels: 3, trits: 1, quints: 0, bits: 0 },
+  { levels: 4, trits: 0, quints: 0, bits: 2 },
+  { levels: 5, trits: 0, quints: 1, bits: 0 },
+  { levels: 6, trits: 1, quints: 0, bits: 1 },
+  { levels: 8, trits: 0, quints: 0, bits: 3 },
+  { levels: 10, trits: 0, quints: 1, bits: 1 },
+  { levels: 12, trits: 1, quints: 0, bits: 2 },
+  { levels: 16, trits: 0, quints: 0, bits: 4 },
+  { levels: 20, trits: 0, quints: 1, bits: 2 },
+  { levels: 24, trits: 1, quints: 0, bits: 3 },
+  { levels: 32, trits: 0, quints: 0, bits: 5 },
+  { levels: 40, trits: 0, quints: 1, bits: 3 },
+  { levels: 48, trits: 1, quints: 0, bits: 4 },
+  { levels: 64, trits: 0, quints: 0, bits: 6 },
+  { levels: 80, trits: 0, quints: 1, bits: 4 },
+  { levels: 96, trits: 1, quints: 0, bits: 5 },
+  { levels: 128, trits: 0, quints: 0, bits: 7 },
+  { levels: 160, trits: 0, quints: 1, bits: 5 },
+  { levels: 192, trits: 1, quints: 0, bits: 6 },
+  { levels: 256, trits: 0, quints: 0, bits: 8 },
+];
+
+type ISERange = typeof iseRanges[number];
+
+/** Weight ranges indexed by the block mode's precision bits, low then high precision */
+const weightLevels = [
+  [0, 0, 2, 3, 4, 5, 6, 8],
+  [0, 0, 10, 12, 16, 20, 24, 32],
+];
+
+function getISERange(levels: number): ISERange {
+  return iseRanges.find(range => range.levels === levels)!;
+}
+
+function getISEBitCount(count: number, range: ISERange): number {
+  return count * range.bits + Math.ceil(count * 8 * range.trits / 5) + Math.ceil(count * 7 * range.quints / 3);
+}
+
+function bit(value: number, index: number): number {
+  return (value >> index) & 1;
+}
+
+/** Decode the 8 packed bits of a trit block into 5 trits */
+function decodeTrits(t: number): number[] {
+  let c: number;
+  let t3: number;
+  let t4: number;
+  if (((t >> 2) & 7) === 7) {
+    c = (((t >> 5) & 7) << 2) | (t & 3);
+    t4 = 2;
+    t3 = 2;
+  } else {
+    c = t & 0x1f;
+    if (((t >> 5) & 3) === 3) {
+      t4 = 2;
+      t3 = bit(t, 7);
+    } else {
+      t4 = bit(t, 7);
+      t3 = (t >> 5) & 3;
+    }
+  }
+
+  let t0: number;
+  let t1: number;
+  let t2: number;
+  if ((c & 3) === 3) {
+    t2 = 2;
+    t1 = bit(c, 4);
+    t0 = (bit(c, 3) << 1) | (bit(c, 2) & ~bit(c, 3) & 1);
+  } else if (((c >> 2) & 3) === 3) {
+    t2 = 2;
+    t1 = 2;
+    t0 = c & 3;
+  } else {
+    t2 = bit(c, 4);
+    t1 = (c >> 2) & 3;
+    t0 = (bit(c, 1) << 1) | (bit(c, 0) & ~bit(c, 1) & 1);
+  }
+  return [t0, t1, t2, t3, t4];
+}
+
+/** Decode the 7 packed bits of a quint block into 3 quints */
+function decodeQuints(q: number): number[] {
+  if (((q >> 1) & 3) === 3 && ((q >> 5) & 3) === 0) {
+    const q0 = bit(q, 0);
+    const q2 = (q0 << 2) | ((bit(q, 4) & ~q0 & 1) << 1) | (bit(q, 3) & ~q0 & 1);
+    return [4, 4, q2];
+  }
+
+  let c: number;
+  let q2: number;
+  if (((q >> 1) & 3) === 3) {
+    q2 = 4;
+    c = (((q >> 3) & 3) << 3) | ((~(q >> 5) & 3) << 1) | (q & 1);
+  } else {
+    q2 = (q >> 5) & 3;
+    c = q & 0x1f;
+  }
+  if ((c & 7) === 5) {
+    return [(c >> 3) & 3, 4, q2];
+  }
+  return [c & 7, (c >> 3) & 3, q2];
+}
+
+interface ISEValue {
+  /** The trit or quint, 0 for pure bit ranges */
+  digit: number;
+  /** The low bits */
+  bits: number;
+}
+
+/**
+ * Read count values of an integer sequence encoding
+ *
+ * @param readStreamBits Reads the next bits of the sequence, lowest bit first
+ */
+function decodeISE(readStreamBits: (count: number) => number, count: number, range: ISERange): ISEValue[] {
+  // The last trit/quint block may be cut short, its missing bits read as 0
+  let remaining = getISEBitCount(count, range);
+  const readBits = (bitCount: number): number => {
+    const available = Math.max(0, Math.min(bitCount, remaining));
+    remaining -= bitCount;
+    return available ? readStreamBits(available) : 0;
+  };
+  const values: ISEValue[] = [];
+  if (range.trits) {
+    // 5 values share 8 trit bits, interleaved after each value's low bits as 2, 2, 1, 2, 1
+    const tritBitCounts = [2, 2, 1, 2, 1];
+    while (values.length < count) {
+      const lows: number[] = [];
+      let packed = 0;
+      let shift = 0;
+      for (let i = 0; i < 5; i++) {
+        lows.push(readBits(range.bits));
+        packed |= readBits(tritBitCounts[i]) << shift;
+        shift += tritBitCounts[i];
+      }
+      decodeTrits(packed).forEach((digit, i) => values.push({ digit, bits: lows[i] }));
+    }
+  } else if (range.quints) {
+    // 3 values share 7 quint bits, interleaved as 3, 2, 2
+    const quintBitCounts = [3, 2, 2];
+    while (values.length < count) {
+      const lows: number[] = [];
+      let packed = 0;
+      let shift = 0;
+      for (let i = 0; i < 3; i++) {
+        lows.push(readBits(range.bits));
+        packed |= readBits(quintBitCounts[i]) << shift;
+        shift += quintBitCounts[i];
+      }
+      decodeQuints(packed).forEach((digit, i) => values.push({ digit, bits: lows[i] }));
+    }
+  } else {
+    while (values.length < count) {
+      values.push({ digit: 0, bits: readBits(range.bits) });
+    }
+  }
+  return values.slice(0, count);
+}
+
+/** Replicate a value of the given precision to fill the target precision */
+function replicate(value: number, bits: number, targetBits: number): number {
+  if (bits === 0) {
+    return 0;
+  }
+  let result = 0;
+  let filled = 0;
+  while (filled < targetBits) {
+    result = (result << bits) | value;
+    filled += bits;
+  }
+  return result >> (filled - targetBits);
+}
+
+/** Unquantize a color endpoint value to 0-255 */
+function unquantizeColor(value: ISEValue, range: ISERange): number {
+  if (!range.trits && !range.quints) {
+    return replicate(value.bits, range.bits, 8);
+  }
+  const m = value.bits;
+  const a = bit(m, 0) ? 0x1ff : 0;
+  const b = bit(m, 1);
+  const c = bit(m, 2);
+  const d = bit(m, 3);
+  const e = bit(m, 4);
+  const f = bit(m, 5);
+  let bValue = 0;
+  let cValue: number;
+  if (range.trits) {
+    switch (range.bits) {
+      case 1: cValue = 204; break;
+      case 2: cValue = 93; bValue = (b << 8) | (b << 4) | (b << 2) | (b << 1); break;
+      case 3: cValue = 44; bValue = (c << 8) | (b << 7) | (c << 3) | (b << 2) | (c << 1) | b; break;
+      case 4: cValue = 22; bValue = (d << 8) | (c << 7) | (b << 6) | (d << 2) | (c << 1) | b; break;
+      case 5: cValue = 11; bValue = (e << 8) | (d << 7) | (c << 6) | (b << 5) | (e << 1) | d; break;
+      default: cValue = 5; bValue = (f << 8) | (e << 7) | (d << 6) | (c << 5) | (b << 4) | f; break;
+    }
+  } else {
+    switch (range.bits) {
+      case 1: cValue = 113; break;
+      case 2: cValue = 54; bValue = (b << 8) | (b << 3) | (b << 2); break;
+      case 3: cValue = 26; bValue = (c << 8) | (b << 7) | (c << 2) | (b << 1) | c; break;
+      case 4: cValue = 13; bValue = (d << 8) | (c << 7) | (b << 6) | (d << 1) | c; break;
+      default: cValue = 6; bValue = (e << 8) | (d << 7) | (c << 6) | (b << 5) | e; break;
+    }
+  }
+  const t = (value.digit * cValue + bValue) ^ a;
+  return (a & 0x80) | (t >> 2);
+}
+
+/** Unquantize a weight to 0-64 */
+function unquantizeWeight(value: ISEValue, range: ISERange): number {
+  let result: number;
+  if (!range.trits && !range.quints) {
+    result = replicate(value.bits, range.bits, 6);
+  } else if (range.bits === 0) {
+    result = range.trits ? [0, 32, 63][value.digit] : [0, 16, 32, 47, 63][value.digit];
+  } else {
+    const m = value.bits;
+    const a = bit(m, 0) ? 0x7f : 0;
+    const b = bit(m, 1);
+    const c = bit(m, 2);
+    let bValue = 0;
+    let cValue: number;
+    if (range.trits) {
+      switch (range.bits) {
+        case 1: cValue = 50; break;
+        case 2: cValue = 23; bValue = (b << 6) | (b << 2) | b; break;
+        default: cValue = 11; bValue = (c << 6) | (b << 5) | (c << 1) | b; break;
+      }
+    } else {
+      switch (range.bits) {
+        case 1: cValue = 28; break;
+        default: cValue = 13; bValue = (b << 6) | (b << 1); break;
+      }
+    }
+    const t = (value.digit * cValue + bValue) ^ a;
+    result = (a & 0x20) | (t >> 2);
+  }
+  return result > 32 ? result + 1 : result;
+}
+
+function hash52(p: number): number {
+  p ^= p >>> 15;
+  p = (p - (p << 17)) >>> 0;
+  p = (p + (p << 7)) >>> 0;
+  p = (p + (p << 4)) >>> 0;
+  p ^= p >>> 5;
+  p = (p + (p << 16)) >>> 0;
+  p ^= p >>> 7;
+  p ^= p >>> 3;
+  p = (p ^ (p << 6)) >>> 0;
+  p ^= p >>> 17;
+  return p >>> 0;
+}
+
+/** The partition of a texel, per the specification's partition hash for blocks with fewer than 31 texels */
+function selectPartition(seed: number, x: number, y: number, partitionCount: number): number {
+  x <<= 1;
+  y <<= 1;
+  seed += (partitionCount - 1) * 1024;
+  const rnum = hash52(seed);
+  const seeds = [
+    rnum & 0xf, (rnum >>> 4) & 0xf, (rnum >>> 8) & 0xf, (rnum >>> 12) & 0xf,
+    (rnum >>> 16) & 0xf, (rnum >>> 20) & 0xf, (rnum >>> 24) & 0xf, (rnum >>> 28) & 0xf,
+  ].map(s => s * s);
+
+  let sh1: number;
+  let sh2: number;
+  if (seed & 1) {
+    sh1 = seed & 2 ? 4 : 5;
+    sh2 = partitionCount === 3 ? 6 : 5;
+  } else {
+    sh1 = partitionCount === 3 ? 6 : 5;
+    sh2 = seed & 2 ? 4 : 5;
+  }
+
+  // z is always 0 for 2D blocks, so the z seeds drop out
+  const a = (((seeds[0] >> sh1) * x + (seeds[1] >> sh2) * y + (rnum >>> 14)) & 0x3f);
+  const b = (((seeds[2] >> sh1) * x + (seeds[3] >> sh2) * y + (rnum >>> 10)) & 0x3f);
+  const c = partitionCount < 3 ? 0 : (((seeds[4] >> sh1) * x + (seeds[5] >> sh2) * y + (rnum >>> 6)) & 0x3f);
+  const d = partitionCount < 4 ? 0 : (((seeds[6] >> sh1) * x + (seeds[7] >> sh2) * y + (rnum >>> 2)) & 0x3f);
+
+  if (a >= b && a >= c && a >= d) {
+    return 0;
+  }
+  if (b >= c && b >= d) {
+    return 1;
+  }
+  return c >= d ? 2 : 3;
+}
+
+function clamp255(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+/** Move a bit from b's top into a, making a a signed 6-bit offset. Returns [a, b]. */
+function bitTransferSigned(a: number, b: number): [number, number] {
+  b = (b >> 1) | (a & 0x80);
+  a = (a >> 1) & 0x3f;
+  if (a & 0x20) {
+    a -= 0x40;
+  }
+  return [a, b];
+}
+
+function blueContract(r: number, g: number, b: number, a: number): number[] {
+  return [(r + b) >> 1, (g + b) >> 1, b, a];
+}
+
+/**
+ * Decode the endpoints of one partition
+ *
+ * @returns The two RGBA endpoints, or null for HDR modes
+ */
+function decodeEndpoints(mode: number, v: number[]): [number[], number[]] | null {
+  switch (mode) {
+    case 0:
+      return [[v[0], v[0], v[0], 255], [v[1], v[1], v[1], 255]];
+    case 1: {
+      const l0 = (v[0] >> 2) | (v[1] & 0xc0);
+      const l1 = Math.min(l0 + (v[1] & 0x3f), 255);
+      return [[l0, l0, l0, 255], [l1, l1, l1, 255]];
+    }
+    case 4:
+      return [[v[0], v[0], v[0], v[2]], [v[1], v[1], v[1], v[3]]];
+    case 5: {
+      const [o0, b0] = bitTransferSigned(v[1], v[0]);
+      const [o1, b1] = bitTransferSigned(v[3], v[2]);
+      const l1 = clamp255(b0 + o0);
+      return [[b0, b0, b0, b1], [l1, l1, l1, clamp255(b1 + o1)]];
+    }
+    case 6:
+      return [
+        [(v[0] * v[3]) >> 8, (v[1] * v[3]) >> 8, (v[2] * v[3]) >> 8, 255],
+        [v[0], v[1], v[2], 255],
+      ];
+    case 8:
+    case 12: {
+      const a0 = mode === 12 ? v[6] : 255;
+      const a1 = mode === 12 ? v[7] : 255;
+      if (v[1] + v[3] + v[5] >= v[0] + v[2] + v[4]) {
+        return [[v[0], v[2], v[4], a0], [v[1], v[3], v[5], a1]];
+      }
+      return [blueContract(v[1], v[3], v[5], a1), blueContract(v[0], v[2], v[4], a0)];
+    }
+    case 9:
+    case 13: {
+      const [r1, r0] = bitTransferSigned(v[1], v[0]);
+      const [g1, g0] = bitTransferSigned(v[3], v[2]);
+      const [b1, b0] = bitTransferSigned(v[5], v[4]);
+      const [a1, a0] = mode === 13 ? bitTransferSigned(v[7], v[6]) : [0, 255];
+      const endpoints: [number[], number[]] = r1 + g1 + b1 >= 0
+        ? [[r0, g0, b0, a0], [r0 + r1, g0 + g1, b0 + b1, a0 + a1]]
+        : [blueContract(r0 + r1, g0 + g1, b0 + b1, a0 + a1), blueContract(r0, g0, b0, a0)];
+      return [endpoints[0].map(clamp255), endpoints[1].map(clamp255)];
+    }
+    case 10:
+      return [
+        [(v[0] * v[3]) >> 8, (v[1] * v[3]) >> 8, (v[2] * v[3]) >> 8, v[4]],
+        [v[0], v[1], v[2], v[5]],
+      ];
+    default:
+      return null;
+  }
+}
+
+function fillError(out: Uint8Array): void {
+  for (let texel = 0; texel < 16; texel++) {
+    out.set(errorColor, texel * 4);
+  }
+}
+
+/**
+ * Decode one 16-byte ASTC 4x4 block into 4x4 RGBA8 texels, row by row
+ */
+export function decodeASTC4x4Block(data: Uint8Array, offset: number, out: Uint8Array): void {
+  const readAt = (position: number, count: number): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const p = position + i;
+      value |= ((data[offset + (p >> 3)] >> (p & 7)) & 1) << i;
+    }
+    return value >>> 0;
+  };
+
+  const blockMode = readAt(0, 11);
+
+  // Void extent: a constant color given as UNORM16
+  if ((blockMode & 0x1ff) === 0x1fc) {
+    if (blockMode & 0x200) {
+      fillError(out);
+      return;
+    }
+    const color = [readAt(64, 16) >> 8, readAt(80, 16) >> 8, readAt(96, 16) >> 8, readAt(112, 16) >> 8];
+    for (let texel = 0; texel < 16; texel++) {
+      out.set(color, texel * 4);
+    }
+    return;
+  }
+
+  // Weight grid size, precision and dual plane flag
+  let gridWidth: number;
+  let gridHeight: number;
+  let precision: number;
+  let highPrecision = bit(blockMode, 9);
+  let dualPlane = bit(blockMode, 10);
+  const a = (blockMode >> 5) & 3;
+  if (blockMode & 3) {
+    precision = bit(blockMode, 4) | ((blockMode & 3) << 1);
+    const b = (blockMode >> 7) & 3;
+    switch ((blockMode >> 2) & 3) {
+      case 0: gridWidth = b + 4; gridHeight = a + 2; break;
+      case 1: gridWidth = b + 8; gridHeight = a + 2; break;
+      case 2: gridWidth = a + 2; gridHeight = b + 8; break;
+      default:
+        if (blockMode & 0x100) {
+          gridWidth = (b & 1) + 2;
+          gridHeight = a + 2;
+        } else {
+          gridWidth = a + 2;
+          gridHeight = (b & 1) + 6;
+        }
+        break;
+    }
+  } else {
+    precision = bit(blockMode, 4) | (((blockMode >> 2) & 3) << 1);
+    if ((blockMode & 0xf) === 0) {
+      fillError(out);
+      return;
+    }
+    const b = (blockMode >> 9) & 3;
+    switch ((blockMode >> 7) & 3) {
+      case 0: gridWidth = 12; gridHeight = a + 2; break;
+      case 1: gridWidth = a + 2; gridHeight = 12; break;
+      case 2:
+        gridWidth = a + 6;
+        gridHeight = b + 6;
+        highPrecision = 0;
+        dualPlane = 0;
+        break;
+      default:
+        gridWidth = bit(blockMode, 5) ? 10 : 6;
+        gridHeight = bit(blockMode, 5) ? 6 : 10;
+        if ((blockMode >> 6) & 1) {
+          fillError(out);
+          return;
+        }
+        break;
+    }
+  }
+
+  const weightRange = getISERange(weightLevels[highPrecision][precision]);
+  const planeCount = dualPlane + 1;
+  const weightCount = gridWidth * gridHeight * planeCount;
+  const weightBits = getISEBitCount(weightCount, weightRange);
+  if (gridWidth > 4 || gridHeight > 4 || weightCount > 64 || weightBits < 24 || weightBits > 96) {
+    fillError(out);
+    return;
+  }
+
+  // Partitions and color endpoint modes
+  const partitionCount = readAt(11, 2) + 1;
+  if (partitionCount === 4 && dualPlane) {
+    fillError(out);
+    return;
+  }
+  const modes: number[] = [];
+  let partitionSeed = 0;
+  let colorStart: number;
+  let extraBits = 0;
+  if (partitionCount === 1) {
+    modes.push(readAt(13, 4));
+    colorStart = 17;
+  } else {
+    partitionSeed = readAt(13, 10);
+    colorStart = 29;
+    const selector = readAt(23, 2);
+    if (selector === 0) {
+      const mode = readAt(25, 4);
+      for (let i = 0; i < partitionCount; i++) {
+        modes.push(mode);
+      }
+    } else {
+      // The class bits and the low mode bits of each partition, continued below the weights
+      extraBits = 3 * partitionCount - 4;
+      const encoded = readAt(25, 4) | (readAt(128 - weightBits - extraBits, extraBits) << 4);
+      const baseClass = selector - 1;
+      for (let i = 0; i < partitionCount; i++) {
+        const modeClass = baseClass + bit(encoded, i);
+        modes.push((modeClass << 2) | ((encoded >> (partitionCount + i * 2)) & 3));
+      }
+    }
+  }
+
+  const componentSelectorPosition = 128 - weightBits - extraBits - 2;
+  const colorPlane = dualPlane ? readAt(componentSelectorPosition, 2) : -1;
+  const colorBitsAvailable = 128 - weightBits - extraBits - (dualPlane ? 2 : 0) - colorStart;
+
+  const colorValueCount = modes.reduce((sum, mode) => sum + ((mode >> 2) + 1) * 2, 0);
+  if (colorValueCount > 18) {
+    fillError(out);
+    return;
+  }
+  let colorRange: ISERange | null = null;
+  for (let i = iseRanges.length - 1; i >= 0; i--) {
+    if (getISEBitCount(colorValueCount, iseRanges[i]) <= colorBitsAvailable) {
+      colorRange = iseRanges[i];
+      break;
+    }
+  }
+  if (!colorRange || colorRange.levels < 6) {
+    fillError(out);
+    return;
+  }
+
+  // Color endpoint values
+  let colorPosition = colorStart;
+  const readColorBits = (count: number): number => {
+    const value = readAt(colorPosition, count);
+    colorPosition += count;
+    return value;
+  };
+  const colorValues = decodeISE(readColorBits, colorValueCount, colorRange).map(value => unquantizeColor(value, colorRange!));
+  const endpoints: [number[], number[]][] = [];
+  let valueIndex = 0;
+  for (const mode of modes) {
+    const count = ((mode >> 2) + 1) * 2;
+    const decoded = decodeEndpoints(mode, colorValues.slice(valueIndex, valueIndex + count));
+    if (!decoded) {
+      fillError(out);
+      return;
+    }
+    endpoints.push(decoded);
+    valueIndex += count;
+  }
+
+  // Weights are stored bit-reversed from the top of the block
+  let weightPosition = 0;
+  const readWeightBits = (count: number): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++, weightPosition++) {
+      value |= readAt(127 - weightPosition, 1) << i;
+    }
+    return value;
+  };
+  const gridWeights = decodeISE(readWeightBits, weightCount, weightRange).map(value => unquantizeWeight(value, weightRange));
+
+  // Infill the 4x4 texel weights from the weight grid
+  const scale = Math.floor((1024 + 2) / 3);
+  for (let y = 0; y < 4; y++) {
+    const gt = (scale * y * (gridHeight - 1) + 32) >> 6;
+    const jt = gt >> 4;
+    const ft = gt & 0xf;
+    for (let x = 0; x < 4; x++) {
+      const gs = (scale * x * (gridWidth - 1) + 32) >> 6;
+      const js = gs >> 4;
+      const fs = gs & 0xf;
+      const w11 = (fs * ft + 8) >> 4;
+      const w10 = ft - w11;
+      const w01 = fs - w11;
+      const w00 = 16 - fs - ft + w11;
+      const v0 = js + jt * gridWidth;
+
+      const texelWeight = (plane: number): number => {
+        const weightAt = (index: number) => gridWeights[Math.min(index, gridWidth * gridHeight - 1) * planeCount + plane];
+        return (weightAt(v0) * w00 + weightAt(v0 + 1) * w01 +
+          weightAt(v0 + gridWidth) * w10 + weightAt(v0 + gridWidth + 1) * w11 + 8) >> 4;
+      };
+
+      const partition = partitionCount > 1 ? selectPartition(partitionSeed, x, y, partitionCount) : 0;
+      const [e0, e1] = endpoints[partition];
+      const weight0 = texelWeight(0);
+      const weight1 = dualPlane ? texelWeight(1) : weight0;
+      for (let channel = 0; channel < 4; channel++) {
+        const weight = channel === colorPlane ? weight1 : weight0;
+        // Interpolate at 16 bits, as the decoder does for UNORM8 output without sRGB
+        const c0 = e0[channel] * 257;
+        const c1 = e1[channel] * 257;
+        const value = (c0 * (64 - weight) + c1 * weight + 32) >> 6;
+        out[(y * 4 + x) * 4 + channel] = value >> 8;
+      }
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import { BasisModuleFuncs } from './index';
+import {
+  BasisTextureFormat,
+  BasisTextureType,
+  TranscodeOptions,
+  TranscodeResult
+} from './types';
+import { getDecodeFlags, validateDecodeFlags } from './decode-flags';
+import { validateChannels } from './channels';
+
+/**
+ * Transcoder for legacy .basis files.
+ *
+ * Mirrors the KTX2Transcoder lifecycle (init → startTranscoding → transcodeImageLevel → dispose).
+ * A .basis file stores a flat list of images instead of layers and faces, so the
+ * layer/face indices of TranscodeOptions are mapped onto image indices:
+ * for cubemap arrays the image index is `layer * 6 + face`, otherwise it is `layer`.
+ */
+export class BasisFileTranscoder {
+  private readonly imageLevelInfo = new BasisImageLevelInfo();
+  private transcoderPtr: number = 0;
+  private inputMemPtr = 0;
+  private inputMemSize = 0;
+  private dataSize = 0;
+  private outputMemPtr = 0;
+  private outputMemSize = 0;
+  private initialized = false;
+  private disposed = false;
+
+  constructor(private readonly funcs: BasisModuleFuncs) {
+    this.transcoderPtr = funcs.basisu_transcoder_new();
+  }
+
+  /**
+   * Initialize the transcoder with .basis file data
+   *
+   * The data is copied into the WASM heap and kept there until the next init() or dispose(),
+   * because every .basis transcoder call needs access to the file data.
+   *
+   * @param data .basis file data as Uint8Array
+   * @returns true if the file header is valid, false otherwise
+   */
+  init(data: Uint8Array): boolean {
+    this.checkDisposed();
+
+    // The previous transcoding state refers to the old file data
+    this.funcs.basisu_transcoder_stop_transcoding(this.transcoderPtr);
+
+    // free output
+    this.funcs.free(this.outputMemPtr);
+    this.outputMemPtr = 0;
+    this.outputMemSize = 0;
+
+    // Allocate memory
+    if (this.inputMemSize < data.length) {
+      this.funcs.free(this.inputMemPtr);
+      this.inputMemPtr = this.funcs.malloc(data.length);
+      this.inputMemSize = data.length;
+    }
+
+    // Copy data
+    this.funcs.heap.subarray(this.inputMemPtr, this.inputMemPtr + data.length).set(data);
+    this.dataSize = data.length;
+
+    const success = this.funcs.basisu_transcoder_validate_header(this.transcoderPtr, this.inputMemPtr, this.dataSize);
+    this.initialized = success;
+
+    return success;
+  }
+
+  /**
+   * Get the texture type (2D, 2D array, cubemap array, video frames or volume)
+   */
+  getTextureType(): BasisTextureType {
+    this.checkDisposed();
+    this.checkInitialized();
+    return this.funcs.basisu_transcoder_get_texture_type(this.transcoderPtr, this.inputMemPtr, this.dataSize);
+  }
+
+  /**
+   * Get the basis texture format
+   */
+  getBasisTextureFormat(): BasisTextureFormat {
+    this.checkDisposed();
+    this.checkInitialized();
+    return this.funcs.basisu_transcoder_get_basis_tex_format(this.transcoderPtr, this.inputMemPtr, this.dataSize);
+  }
+
+  /**
+   * Returns the total number of images in the file.
+   * For cubemap arrays this is the number of cubemaps multiplied by 6.
+   */
+  getTotalImages(): number {
+    this.checkDisposed();
+    this.checkInitialized();
+    return this.funcs.basisu_transcoder_get_total_images(this.transcoderPtr, this.inputMemPtr, this.dataSize);
+  }
+
+  /**
+   * Returns the number of mipmap levels of the given image.
+   */
+  getTotalImageLevels(imageIndex: number): number {
+    this.checkDisposed();
+    this.checkInitialized();
+    return this.funcs.basisu_transcoder_get_total_image_levels(this.transcoderPtr, this.inputMemPtr, this.dataSize, imageIndex);
+  }
+
+  /**
+   * Retrieve information about a mipmap level's dimensions, etc. Can be called after init().
+   */
+  getImageLevelInfo(levelIndex: number, layerIndex: number, faceIndex: number): BasisImageLevelInfo | null {
+    this.checkDisposed();
+    this.checkInitialized();
+    const imageIndex = this.getImageIndex(layerIndex, faceIndex);
+    const imageLevelInfo = this.imageLevelInfo;
+    if (imageIndex < 0 || !imageLevelInfo.fill(this.funcs, this.transcoderPtr, this.inputMemPtr, this.dataSize, imageIndex, levelIndex)) {
+      return null;
+    }
+    return imageLevelInfo;
+  }
+
+  /**
+   * Start transcoding (must be called before transcoding images)
+   */
+  startTranscoding(): boolean {
+    this.checkDisposed();
+    this.checkInitialized();
+    return this.funcs.basisu_transcoder_start_transcoding(this.transcoderPtr, this.inputMemPtr, this.dataSize);
+  }
+
+  /**
+   * Transcode an image level
+   *
+   * ⚠️ IMPORTANT: The returned TranscodeResult.data references WASM-managed memory
+   * and may become invalid after calling any other method on this transcoder
+   * (including init, transcodeImageLevel, getImageLevelInfo, etc.) due to
+   * potential WASM heap reallocation. If you need to persist the data, create
+   * a copy using `new Uint8Array(result.data)` or `result.data.slice()`
+   * immediately after this call.
+   *
+   * @param options Transcoding options including format, level, layer, face
+   * @returns TranscodeResult with image data, or null if transcoding failed
+   */
+  transcodeImageLevel(options: TranscodeOptions): TranscodeResult | null {
+    this.checkDisposed();
+    this.checkInitialized();
+
+    const {
+      format,
+      level = 0,
+      layer = 0,
+      face = 0,
+      channels
+    } = options;
+    const decodeFlags = getDecodeFlags(options);
+
+    const imageIndex = this.getImageIndex(layer, face);
+    if (imageIndex < 0) {
+      return null;
+    }
+
+    const basisTexFormat = this.getBasisTextureFormat();
+    if (validateDecodeFlags(decodeFlags, format, basisTexFormat) ||
+      (channels && validateChannels(channels, format, basisTexFormat))) {
+      return null;
+    }
+    const channel0 = channels?.[0] ?? -1;
+    const channel1 = channels?.[1] ?? -1;
+
+    const imageLevelInfo = this.imageLevelInfo;
+    if (!imageLevelInfo.fill(this.funcs, this.transcoderPtr, this.inputMemPtr, this.dataSize, imageIndex, level)) {
+      return null;
+    }
+    const origWidth = imageLevelInfo.origWidth;
+    const origHeight = imageLevelInfo.origHeight;
+
+    // Calculate output size
+    const outputSize = this.funcs.basis_compute_transcoded_image_size_in_bytes(format, origWidth, origHeight);
+
+    // Allocate output buffer
+    if (this.outputMemSize < outputSize) {
+      this.funcs.free(this.outputMemPtr);
+      this.outputMemPtr = this.funcs.malloc(outputSize);
+      this.outputMemSize = outputSize;
+    }
+
+    const uncompressed = this.funcs.basis_transcoder_format_is_uncompressed(format);
+
+    let args: Parameters<typeof this.funcs.basisu_transcoder_transcode_image_level>;
+    if (uncompressed) {
+      args = [
+        this.transcoderPtr, this.inputMemPtr, this.dataSize, imageIndex, level,
+        this.outputMemPtr, origWidth * origHeight, format,
+        decodeFlags, origWidth, origHeight, channel0, channel1, 0];
+    } else {
+      const bytesPerBlock = this.funcs.basis_get_bytes_per_block_or_pixel(format);
+      args = [
+        this.transcoderPtr, this.inputMemPtr, this.dataSize, imageIndex, level,
+        this.outputMemPtr, outputSize / bytesPerBlock, format,
+        decodeFlags, 0, 0, channel0, channel1, 0];
+    }
+
+    // Transcode
+    const success = this.funcs.basisu_transcoder_transcode_image_level(...args);
+
+    if (!success) {
+      return null;
+    }
+
+    return {
+      data: this.funcs.heap.subarray(this.outputMemPtr, this.outputMemPtr + outputSize),
+      width: origWidth,
+      height: origHeight,
+    };
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+
+    // A disposed BasisUniversal takes its heap along, nothing left to free
+    if (!this.funcs.disposed) {
+      if (this.transcoderPtr) {
+        this.funcs.basisu_transcoder_delete(this.transcoderPtr);
+      }
+      this.funcs.free(this.inputMemPtr);
+      this.funcs.free(this.outputMemPtr);
+    }
+
+    this.transcoderPtr = 0;
+    this.inputMemPtr = 0;
+    this.inputMemSize = 0;
+    this.dataSize = 0;
+    this.outputMemPtr = 0;
+    this.outputMemSize = 0;
+
+    this.initialized = false;
+    this.disposed = true;
+  }
+
+  /**
+   * Map a layer/face pair onto a .basis image index, or -1 if the pair is not valid for this texture type.
+   */
+  private getImageIndex(layerIndex: number, faceIndex: number): number {
+    if (this.getTextureType() === BasisTextureType.cBASISTexTypeCubemapArray) {
+      return faceIndex < 6 ? layerIndex * 6 + faceIndex : -1;
+    }
+    return faceIndex === 0 ? layerIndex : -1;
+  }
+
+  private checkInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('Basis transcoder not initialized. Call init() with .basis data first.');
+    }
+  }
+
+  private checkDisposed(): void {
+    if (this.disposed) {
+      throw new Error('Basis transcoder already disposed.');
+    }
+    if (this.funcs.disposed) {
+      throw new Error('The BasisUniversal instance of this Basis transcoder has been disposed.');
+    }
+  }
+}
+
+// // Information about a single mipmap level of an image in a .basis file.
+// struct basisu_image_level_info
+// {
+// 	uint32_t m_image_index;
+// 	uint32_t m_level_index;
+
+// 	uint32_t m_orig_width;
+// 	uint32_t m_orig_height;
+
+// 	uint32_t m_width;
+// 	uint32_t m_height;
+
+// 	uint32_t m_num_blocks_x;
+// 	uint32_t m_num_blocks_y;
+
+// 	uint32_t m_block_width;
+// 	uint32_t m_block_height;
+
+// 	uint32_t m_total_blocks;
+
+// 	uint32_t m_first_slice_index;
+
+// 	uint32_t m_rgb_file_ofs;
+// 	uint32_t m_rgb_file_len;
+// 	uint32_t m_alpha_file_ofs;
+// 	uint32_t m_alpha_file_len;
+
+// 	bool m_alpha_flag;		// true if the image has alpha data
+// 	bool m_iframe_flag;		// true if the image is an I-Frame
+// };
+
+const BasisImageLevelInfoSize = 16 * 4 + 4;
+
+class BasisImageLevelInfo {
+  private buffer: Uint32Array = new Uint32Array(BasisImageLevelInfoSize / 4);
+
+  fill(funcs: BasisModuleFuncs, transcoderPtr: number, dataPtr: number, dataSize: number, image_index: number, level_index: number) {
+    const ptr = funcs.malloc(BasisImageLevelInfoSize);
+    try {
+      const r = funcs.basisu_transcoder_get_image_level_info(
+        transcoderPtr, dataPtr, dataSize, ptr, image_index, level_index);
+      const buffer = this.buffer;
+      if (!r) {
+        buffer.fill(0);
+        return false;
+      }
+      const view = new Uint32Array(funcs.heap.buffer, ptr, buffer.length);
+      this.buffer.set(view);
+      return true;
+    } finally {
+      funcs.free(ptr);
+    }
+  }
+
+  get imageIndex(): number {
+    return this.buffer[0];
+  }
+
+  get levelIndex(): number {
+    return this.buffer[1];
+  }
+
+  get origWidth(): number {
+    return this.buffer[2];
+  }
+
+  get origHeight(): number {
+    return this.buffer[3];
+  }
+
+  get width(): number {
+    return this.buffer[4];
+  }
+
+  get height(): number {
+    return this.buffer[5];
+  }
+
+  get numBlocksX(): number {
+    return this.buffer[6];
+  }
+
+  get numBlocksY(): number {
+    return this.buffer[7];
+  }
+
+  get blockWidth(): number {
+    return this.buffer[8];
+  }
+
+  get blockHeight(): number {
+    return this.buffer[9];
+  }
+
+  get totalBlocks(): number {
+    return this.buffer[10];
+  }
+
+  // The two bools are packed into the low bytes of the last 32-bit word
+  get alphaFlag(): boolean {
+    return (this.buffer[16] & 0xff) !== 0;
+  }
+
+  get iframeFlag(): boolean {
+    return ((this.buffer[16] >>> 8) & 0xff) !== 0;
+  }
+}
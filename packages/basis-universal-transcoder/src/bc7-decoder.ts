@@ -0,0 +1,252 @@
+/**
+ * BC7 block decoding, used by decodeToRGBA()
+ *
+ * Follows the BPTC specification: 8 modes with 1-3 subsets, per-endpoint or shared
+ * p-bits, channel rotation and, for modes 4 and 5, separate color and alpha indices.
+ */
+
+interface BC7ModeInfo {
+  subsets: number;
+  partitionBits: number;
+  rotationBits: number;
+  indexSelectionBits: number;
+  colorBits: number;
+  alphaBits: number;
+  /** One p-bit per endpoint */
+  endpointPBits: boolean;
+  /** One p-bit per subset, shared by its two endpoints */
+  sharedPBits: boolean;
+  indexBits: number;
+  /** Bits of the second index set, 0 if the mode has none */
+  indexBits2: number;
+}
+
+const modes: BC7ModeInfo[] = [
+  { subsets: 3, partitionBits: 4, rotationBits: 0, indexSelectionBits: 0, colorBits: 4, alphaBits: 0, endpointPBits: true, sharedPBits: false, indexBits: 3, indexBits2: 0 },
+  { subsets: 2, partitionBits: 6, rotationBits: 0, indexSelectionBits: 0, colorBits: 6, alphaBits: 0, endpointPBits: false, sharedPBits: true, indexBits: 3, indexBits2: 0 },
+  { subsets: 3, partitionBits: 6, rotationBits: 0, indexSelectionBits: 0, colorBits: 5, alphaBits: 0, endpointPBits: false, sharedPBits: false, indexBits: 2, indexBits2: 0 },
+  { subsets: 2, partitionBits: 6, rotationBits: 0, indexSelectionBits: 0, colorBits: 7, alphaBits: 0, endpointPBits: true, sharedPBits: false, indexBits: 2, indexBits2: 0 },
+  { subsets: 1, partitionBits: 0, rotationBits: 2, indexSelectionBits: 1, colorBits: 5, alphaBits: 6, endpointPBits: false, sharedPBits: false, indexBits: 2, indexBits2: 3 },
+  { subsets: 1, partitionBits: 0, rotationBits: 2, indexSelectionBits: 0, colorBits: 7, alphaBits: 8, endpointPBits: false, sharedPBits: false, indexBits: 2, indexBits2: 2 },
+  { subsets: 1, partitionBits: 0, rotationBits: 0, indexSelectionBits: 0, colorBits: 7, alphaBits: 7, endpointPBits: true, sharedPBits: false, indexBits: 4, indexBits2: 0 },
+  { subsets: 2, partitionBits: 6, rotationBits: 0, indexSelectionBits: 0, colorBits: 5, alphaBits: 5, endpointPBits: true, sharedPBits: false, indexBits: 2, indexBits2: 0 },
+];
+
+/** Subset of each texel for the 64 two-subset partitions, one hex digit per texel */
+const partitions2 = [
+  '0011001100110011', '0001000100010001', '0111011101110111', '0001001100110111',
+  '0000000100010011', '0011011101111111', '0001001101111111', '0000000100110111',
+  '0000000000010011', '0011011111111111', '0000000101111111', '0000000000010111',
+  '0001011111111111', '0000000011111111', '0000111111111111', '0000000000001111',
+  '0000100011101111', '0111000100000000', '0000000010001110', '0111001100010000',
+  '0011000100000000', '0000100011001110', '0000000010001100', '0111001100110001',
+  '0011000100010000', '0000100010001100', '0110011001100110', '0011011001101100',
+  '0001011111101000', '0000111111110000', '0111000110001110', '0011100110011100',
+  '0101010101010101', '0000111100001111', '0101101001011010', '0011001111001100',
+  '0011110000111100', '0101010110101010', '0110100101101001', '0101101010100101',
+  '0111001111001110', '0001001111001000', '0011001001001100', '0011101111011100',
+  '0110100110010110', '0011110011000011', '0110011010011001', '0000011001100000',
+  '0100111001000000', '0010011100100000', '0000001001110010', '0000010011100100',
+  '0110110010010011', '0011011011001001', '0110001110011100', '0011100111000110',
+  '0110110011001001', '0110001100111001', '0111111010000001', '0001100011100111',
+  '0000111100110011', '0011001111110000', '0010001011101110', '0100010001110111',
+];
+
+/** Subset of each texel for the 64 three-subset partitions */
+const partitions3 = [
+  '0011001102212222', '0001001122112221', '0000200122112211', '0222002200110111',
+  '0000000011221122', '0011001100220022', '0022002211111111', '0011001122112211',
+  '0000000011112222', '0000111111112222', '0000111122222222', '0012001200120012',
+  '0112011201120112', '0122012201220122', '0011011211221222', '0011200122002220',
+  '0001001101121122', '0111001120012200', '0000112211221122', '0022002200221111',
+  '0111011102220222', '0001000122212221', '0000001101220122', '0000110022102210',
+  '0122012200110000', '0012001211222222', '0110122112210110', '0000011012211221',
+  '0022110211020022', '0110011020022222', '0011012201220011', '0000200022112221',
+  '0000000211221222', '0222002200120011', '0011001200220222', '0120012001200120',
+  '0000111122220000', '0120120120120120', '0120201212010120', '0011220011220011',
+  '0011112222000011', '0101010122222222', '0000000021212121', '0022112200221122',
+  '0022001100220011', '0220122102201221', '0101222222220101', '0000212121212121',
+  '0101010101012222', '0222011102220111', '0002111200021112', '0000211221122112',
+  '0222011101110222', '0002111211120002', '0110011001102222', '0000000021122112',
+  '0110011022222222', '0022001100110022', '0022112211220022', '0000000000002112',
+  '0002000100020001', '0222122202221222', '0101222222222222', '0111201122012220',
+];
+
+/** Anchor texel of the second subset, for two-subset partitions */
+const anchors2 = [
+  15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15,
+  15, 2, 8, 2, 2, 8, 8, 15, 2, 8, 2, 2, 8, 8, 2, 2,
+  15, 15, 6, 8, 2, 8, 15, 15, 2, 8, 2, 2, 2, 15, 15, 6,
+  6, 2, 6, 8, 15, 15, 2, 2, 15, 15, 15, 15, 15, 2, 2, 15,
+];
+
+/** Anchor texel of the second subset, for three-subset partitions */
+const anchors3Second = [
+  3, 3, 15, 15, 8, 3, 15, 15, 8, 8, 6, 6, 6, 5, 3, 3,
+  3, 3, 8, 15, 3, 3, 6, 10, 5, 8, 8, 6, 8, 5, 15, 15,
+  8, 15, 3, 5, 6, 10, 8, 15, 15, 3, 15, 5, 15, 15, 15, 15,
+  3, 15, 5, 5, 5, 8, 5, 10, 5, 10, 8, 13, 15, 12, 3, 3,
+];
+
+/** Anchor texel of the third subset, for three-subset partitions */
+const anchors3Third = [
+  15, 8, 8, 3, 15, 15, 3, 8, 15, 15, 15, 15, 15, 15, 15, 8,
+  15, 8, 15, 3, 15, 8, 15, 8, 3, 15, 6, 10, 15, 15, 10, 8,
+  15, 3, 15, 10, 10, 8, 9, 10, 6, 15, 8, 15, 3, 6, 6, 8,
+  15, 3, 15, 15, 15, 15, 15, 15, 15, 15, 15, 15, 3, 15, 15, 8,
+];
+
+const weights2 = [0, 21, 43, 64];
+const weights3 = [0, 9, 18, 27, 37, 46, 55, 64];
+const weights4 = [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64];
+
+function getWeights(bits: number): number[] {
+  return bits === 2 ? weights2 : bits === 3 ? weights3 : weights4;
+}
+
+function interpolate(e0: number, e1: number, weight: number): number {
+  return ((64 - weight) * e0 + weight * e1 + 32) >> 6;
+}
+
+/** Expand a value of the given precision to 8 bits by replicating its high bits */
+function expand(value: number, bits: number): number {
+  value <<= 8 - bits;
+  return value | (value >> bits);
+}
+
+/**
+ * Decode one 16-byte BC7 block into 4x4 RGBA8 texels, row by row
+ *
+ * Reserved blocks (mode bits all zero) decode to transparent black.
+ */
+export function decodeBC7Block(data: Uint8Array, offset: number, out: Uint8Array): void {
+  let mode = 0;
+  while (mode < 8 && !(data[offset] & (1 << mode))) {
+    mode++;
+  }
+  if (mode === 8) {
+    out.fill(0, 0, 64);
+    return;
+  }
+
+  let bitPosition = mode + 1;
+  const read = (count: number): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++, bitPosition++) {
+      value |= ((data[offset + (bitPosition >> 3)] >> (bitPosition & 7)) & 1) << i;
+    }
+    return value;
+  };
+
+  const info = modes[mode];
+  const partition = read(info.partitionBits);
+  const rotation = read(info.rotationBits);
+  const indexSelection = read(info.indexSelectionBits);
+
+  // endpoints[subset * 2 + endpoint][channel]
+  const endpointCount = info.subsets * 2;
+  const endpoints: number[][] = [];
+  for (let i = 0; i < endpointCount; i++) {
+    endpoints.push([0, 0, 0, 255]);
+  }
+  for (let channel = 0; channel < 3; channel++) {
+    for (let i = 0; i < endpointCount; i++) {
+      endpoints[i][channel] = read(info.colorBits);
+    }
+  }
+  if (info.alphaBits) {
+    for (let i = 0; i < endpointCount; i++) {
+      endpoints[i][3] = read(info.alphaBits);
+    }
+  }
+
+  let colorBits = info.colorBits;
+  let alphaBits = info.alphaBits;
+  if (info.endpointPBits || info.sharedPBits) {
+    const pBits: number[] = [];
+    for (let i = 0; i < endpointCount; i++) {
+      pBits.push(info.endpointPBits || i % 2 === 0 ? read(1) : pBits[i - 1]);
+    }
+    for (let i = 0; i < endpointCount; i++) {
+      for (let channel = 0; channel < 4; channel++) {
+        endpoints[i][channel] = (endpoints[i][channel] << 1) | pBits[i];
+      }
+    }
+    colorBits++;
+    if (alphaBits) {
+      alphaBits++;
+    }
+  }
+  for (const endpoint of endpoints) {
+    for (let channel = 0; channel < 3; channel++) {
+      endpoint[channel] = expand(endpoint[channel], colorBits);
+    }
+    endpoint[3] = alphaBits ? expand(endpoint[3], alphaBits) : 255;
+  }
+
+  const subsetOf = (texel: number): number => {
+    if (info.subsets === 2) {
+      return partitions2[partition].charCodeAt(texel) - 48;
+    }
+    if (info.subsets === 3) {
+      return partitions3[partition].charCodeAt(texel) - 48;
+    }
+    return 0;
+  };
+  const isAnchor = (texel: number): boolean => {
+    if (texel === 0) {
+      return true;
+    }
+    if (info.subsets === 2) {
+      return texel === anchors2[partition];
+    }
+    if (info.subsets === 3) {
+      return texel === anchors3Second[partition] || texel === anchors3Third[partition];
+    }
+    return false;
+  };
+
+  // Anchor texels store their index with the high bit implied to be 0
+  const indices: number[] = [];
+  for (let texel = 0; texel < 16; texel++) {
+    indices.push(read(isAnchor(texel) ? info.indexBits - 1 : info.indexBits));
+  }
+  const indices2: number[] = [];
+  if (info.indexBits2) {
+    for (let texel = 0; texel < 16; texel++) {
+      indices2.push(read(texel === 0 ? info.indexBits2 - 1 : info.indexBits2));
+    }
+  }
+
+  for (let texel = 0; texel < 16; texel++) {
+    const subset = subsetOf(texel);
+    const e0 = endpoints[subset * 2];
+    const e1 = endpoints[subset * 2 + 1];
+
+    let colorIndex = indices[texel];
+    let colorIndexBits = info.indexBits;
+    let alphaIndex = colorIndex;
+    let alphaIndexBits = colorIndexBits;
+    if (info.indexBits2) {
+      alphaIndex = indices2[texel];
+      alphaIndexBits = info.indexBits2;
+      if (indexSelection) {
+        [colorIndex, alphaIndex] = [alphaIndex, colorIndex];
+        [colorIndexBits, alphaIndexBits] = [alphaIndexBits, colorIndexBits];
+      }
+    }
+
+    const colorWeight = getWeights(colorIndexBits)[colorIndex];
+    const alphaWeight = getWeights(alphaIndexBits)[alphaIndex];
+    const pixel = [
+      interpolate(e0[0], e1[0], colorWeight),
+      interpolate(e0[1], e1[1], colorWeight),
+      interpolate(e0[2], e1[2], colorWeight),
+      interpolate(e0[3], e1[3], alphaWeight),
+    ];
+    if (rotation) {
+      [pixel[rotation - 1], pixel[3]] = [pixel[3], pixel[rotation - 1]];
+    }
+    out.set(pixel, texel * 4);
+  }
+}
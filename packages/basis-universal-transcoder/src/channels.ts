@@ -0,0 +1,50 @@
+import { BasisTextureFormat, Channel, TranscoderTextureFormat } from './types';
+import { getFormatName } from './utils';
+
+/**
+ * Number of channels selectable with TranscodeOptions.channels, 0 if the format does not support channel selection
+ */
+export function getSelectableChannelCount(format: TranscoderTextureFormat): number {
+  switch (format) {
+    case TranscoderTextureFormat.cTFBC4_R:
+    case TranscoderTextureFormat.cTFETC2_EAC_R11:
+      return 1;
+    case TranscoderTextureFormat.cTFBC5_RG:
+    case TranscoderTextureFormat.cTFETC2_EAC_RG11:
+      return 2;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Check TranscodeOptions.channels against the target format and, if known, the source format
+ *
+ * @returns null if the channels are valid, otherwise the reason they are not
+ */
+export function validateChannels(
+  channels: readonly (Channel | undefined)[],
+  format: TranscoderTextureFormat,
+  basisTexFormat?: BasisTextureFormat
+): string | null {
+  const count = getSelectableChannelCount(format);
+  if (count === 0) {
+    return `${getFormatName(format)} does not support channel selection, only BC4, BC5 and ETC2 EAC R11/RG11 do.`;
+  }
+  if (basisTexFormat !== undefined && basisTexFormat !== BasisTextureFormat.cUASTC4x4) {
+    return 'Channel selection requires a UASTC LDR source, ETC1S selects the alpha slice with getAlphaForOpaqueFormats.';
+  }
+  const given = channels.filter(channel => channel !== undefined).length;
+  if (channels.length === 0 || channels[0] === undefined) {
+    return 'The first channel is required.';
+  }
+  if (given > count) {
+    return `${getFormatName(format)} has ${count} channel(s), ${given} given.`;
+  }
+  for (const channel of channels) {
+    if (channel !== undefined && !(Number.isInteger(channel) && channel >= Channel.R && channel <= Channel.A)) {
+      return `Invalid channel ${channel}, expected Channel.R, G, B or A.`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,429 @@
+#!/usr/bin/env node
+/**
+ * `basis-transcode` command-line tool
+ *
+ * Inspects and transcodes KTX2 files with the Node.js WASM loader. Exits with 0 on success,
+ * 1 when a file cannot be read, transcoded or written, and 2 on invalid arguments.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  BasisTextureFormat,
+  BasisUniversal,
+  decodeHDRToFloat32,
+  getBundledWasmPath,
+  getFormatName,
+  KTX2ColorModel,
+  KTX2ColorPrimaries,
+  KTX2DFDFlags,
+  KTX2SupercompressionScheme,
+  KTX2Transcoder,
+  KTX2TransferFunction,
+  loadNode,
+  toneMapToRGBA8,
+  TranscodedTexture,
+  TranscoderTextureFormat,
+  WasmVariant,
+  writeASTC,
+  writeDDS,
+  writeKTX2,
+  writePNG,
+  writePVR,
+} from './node.js';
+
+const USAGE = `Usage: basis-transcode <command> [options]
+
+Commands:
+  info <file.ktx2> [--json]                   Header, DFD, key/value data and image levels
+  transcode <file.ktx2> --format <name> --out <file>
+                                              Transcode all levels, the container follows the
+                                              extension: .dds, .ktx2, .pvr, .astc or .png
+  dump-levels <file.ktx2> [--out-dir <dir>]   Write every mip level as PNG
+  formats [--json]                            Supported target formats of the WASM build
+
+Options:
+  --wasm <default|hdr|full|path>              WASM build to load (default: full)
+  --srgb, --linear                            Override the color space read from the DFD
+  --level, --layer, --face <n>                Image written to .astc and .png (default: 0)
+  -h, --help                                  Show this help
+`;
+
+/** Thrown for invalid command lines, reported with the usage text and exit code 2 */
+class UsageError extends Error { }
+
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Target format names accepted by --format: the enum names without the cTF prefix, in
+ * lower case, aliases included (etc1, bc1, astc_4x4, ...). Output uses the first name of each format.
+ */
+const formatsByName = new Map<string, TranscoderTextureFormat>();
+const formatNames = new Map<TranscoderTextureFormat, string>();
+for (const [key, value] of Object.entries(TranscoderTextureFormat)) {
+  if (typeof value !== 'number' || value === TranscoderTextureFormat.cTFBC7_ALT ||
+    value === TranscoderTextureFormat.cTFTotalTextureFormats) {
+    continue;
+  }
+  const name = key.replace(/^cTF/, '').toLowerCase();
+  formatsByName.set(name, value);
+  if (!formatNames.has(value)) {
+    formatNames.set(value, name);
+  }
+}
+// Short names without the channel suffix (bc7, etc2, astc_hdr_4x4, ...) where they are unambiguous
+const shortNames = new Map<string, TranscoderTextureFormat[]>();
+for (const [format, name] of formatNames) {
+  const shortName = name.replace(/_(rgba|rgb|rg|r)$/, '');
+  shortNames.set(shortName, [...(shortNames.get(shortName) ?? []), format]);
+}
+for (const [shortName, formats] of shortNames) {
+  if (formats.length === 1 && !formatsByName.has(shortName)) {
+    formatsByName.set(shortName, formats[0]);
+  }
+}
+
+const basisTextureFormats = Object.entries(BasisTextureFormat)
+  .filter((entry): entry is [string, BasisTextureFormat] => typeof entry[1] === 'number')
+  .map(([key, value]) => ({ name: key.replace(/^c/, ''), value }));
+
+function parseFormat(name: string | undefined): TranscoderTextureFormat {
+  if (!name) {
+    throw new UsageError('--format is required');
+  }
+  const format = formatsByName.get(name.toLowerCase());
+  if (format === undefined) {
+    throw new UsageError(`Unknown format "${name}", run "basis-transcode formats" for the list`);
+  }
+  return format;
+}
+
+function parseIndex(value: string | undefined, option: string): number {
+  if (value === undefined) {
+    return 0;
+  }
+  const index = Number(value);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new UsageError(`${option} must be a non-negative integer`);
+  }
+  return index;
+}
+
+function loadWasm(wasm: string = 'full'): Promise<BasisUniversal> {
+  const variants: WasmVariant[] = ['default', 'hdr', 'full'];
+  return loadNode(variants.includes(wasm as WasmVariant) ? getBundledWasmPath(wasm as WasmVariant) : wasm);
+}
+
+async function openKTX2(basisUniversal: BasisUniversal, path: string): Promise<KTX2Transcoder> {
+  const data = new Uint8Array(await readFile(path));
+  const transcoder = basisUniversal.createKTX2Transcoder();
+  try {
+    transcoder.initOrThrow(data);
+  } catch (error) {
+    transcoder.dispose();
+    throw error;
+  }
+  return transcoder;
+}
+
+function isHDR(basisTexFormat: BasisTextureFormat): boolean {
+  return basisTexFormat !== BasisTextureFormat.cETC1S && basisTexFormat !== BasisTextureFormat.cUASTC4x4;
+}
+
+function describeValue(value: Uint8Array): string | number[] {
+  // Text values are NUL terminated, anything else is shown as bytes
+  const end = value.length > 0 && value[value.length - 1] === 0 ? value.length - 1 : value.length;
+  const text = value.subarray(0, end);
+  if (end > 0 && text.every((byte) => byte >= 0x20 || byte === 0x09 || byte === 0x0a)) {
+    return new TextDecoder().decode(text);
+  }
+  return Array.from(value);
+}
+
+function getInfo(transcoder: KTX2Transcoder) {
+  const header = transcoder.getHeaderInfo();
+  const dfd = transcoder.getDataFormatDescriptor();
+  const keyValueData: Record<string, string | number[]> = {};
+  for (const [key, value] of transcoder.getKeyValueData()) {
+    keyValueData[key] = describeValue(value);
+  }
+
+  const levels = [];
+  for (let level = 0; level < Math.max(1, header.levels); level++) {
+    for (let layer = 0; layer < Math.max(1, header.layers); layer++) {
+      for (let face = 0; face < header.faces; face++) {
+        const info = transcoder.getImageLevelInfo(level, layer, face);
+        if (!info) {
+          continue;
+        }
+        levels.push({
+          level, layer, face,
+          origWidth: info.origWidth,
+          origHeight: info.origHeight,
+          width: info.width,
+          height: info.height,
+          numBlocksX: info.numBlocksX,
+          numBlocksY: info.numBlocksY,
+          blockWidth: info.blockWidth,
+          blockHeight: info.blockHeight,
+          totalBlocks: info.totalBlocks,
+          alphaFlag: info.alphaFlag,
+          iframeFlag: info.iframeFlag,
+        });
+      }
+    }
+  }
+
+  return {
+    basisTextureFormat: BasisTextureFormat[transcoder.getBasisTextureFormat()].replace(/^c/, ''),
+    header,
+    dataFormatDescriptor: dfd && {
+      colorModel: KTX2ColorModel[dfd.colorModel] ?? dfd.colorModel,
+      // SRGB is an alias of BT709 and would win the reverse enum lookup
+      colorPrimaries: dfd.colorPrimaries === KTX2ColorPrimaries.BT709 ? 'BT709' : KTX2ColorPrimaries[dfd.colorPrimaries] ?? dfd.colorPrimaries,
+      transferFunction: KTX2TransferFunction[dfd.transferFunction] ?? dfd.transferFunction,
+      flags: dfd.flags,
+      texelBlockDimension: dfd.texelBlockDimension,
+      bytesPlane: dfd.bytesPlane,
+      samples: dfd.samples,
+    },
+    keyValueData,
+    levels,
+  };
+}
+
+function printInfo(path: string, info: ReturnType<typeof getInfo>): void {
+  const { header, dataFormatDescriptor: dfd } = info;
+  const lines = [
+    `${path}`,
+    `  Format:            ${info.basisTextureFormat}`,
+    `  Size:              ${header.width}x${header.height}`,
+    `  vkFormat:          ${header.vkFormat}`,
+    `  Levels:            ${header.levels}`,
+    `  Layers:            ${header.layers}`,
+    `  Faces:             ${header.faces}`,
+    `  Supercompression:  ${KTX2SupercompressionScheme[header.supercompressionScheme] ?? header.supercompressionScheme}`,
+  ];
+  if (dfd) {
+    lines.push(
+      '  Data format descriptor:',
+      `    Color model:       ${dfd.colorModel}`,
+      `    Primaries:         ${dfd.colorPrimaries}`,
+      `    Transfer function: ${dfd.transferFunction}`,
+      `    Premultiplied:     ${(dfd.flags & KTX2DFDFlags.ALPHA_PREMULTIPLIED) !== 0}`,
+      `    Texel block:       ${dfd.texelBlockDimension.slice(0, 2).join('x')}`,
+      `    Samples:           ${dfd.samples.map((s) => `channel ${s.channelId} bits ${s.bitOffset}..${s.bitOffset + s.bitLength - 1}`).join(', ')}`,
+    );
+  }
+  lines.push('  Key/value data:');
+  for (const [key, value] of Object.entries(info.keyValueData)) {
+    lines.push(`    ${key}: ${typeof value === 'string' ? value : `<${value.length} bytes>`}`);
+  }
+  lines.push('  Image levels:');
+  for (const level of info.levels) {
+    lines.push(`    level ${level.level} layer ${level.layer} face ${level.face}: ` +
+      `${level.origWidth}x${level.origHeight} (${level.numBlocksX}x${level.numBlocksY} blocks of ${level.blockWidth}x${level.blockHeight})` +
+      `${level.alphaFlag ? ', alpha' : ''}${level.iframeFlag ? ', I-frame' : ''}`);
+  }
+  console.log(lines.join('\n'));
+}
+
+/**
+ * Transcode for PNG output: RGBA32 for LDR sources, tone-mapped half floats for HDR sources
+ */
+function transcodeForPNG(transcoder: KTX2Transcoder): TranscodedTexture | null {
+  if (!isHDR(transcoder.getBasisTextureFormat())) {
+    return transcoder.transcodeAll(TranscoderTextureFormat.cTFRGBA32);
+  }
+  const texture = transcoder.transcodeAll(TranscoderTextureFormat.cTFRGBA_HALF);
+  if (!texture) {
+    return null;
+  }
+  const images = texture.images.map((layers) => layers.map((faces) => faces.map((image) => ({
+    ...image,
+    data: toneMapToRGBA8(decodeHDRToFloat32(image.data, texture.format)),
+  }))));
+  return { ...texture, format: TranscoderTextureFormat.cTFRGBA32, images, byteLength: texture.byteLength / 2 };
+}
+
+type Options = ReturnType<typeof parseCommandLine>['values'];
+
+function parseCommandLine(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      'out-dir': { type: 'string' },
+      wasm: { type: 'string' },
+      srgb: { type: 'boolean' },
+      linear: { type: 'boolean' },
+      level: { type: 'string' },
+      layer: { type: 'string' },
+      face: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+async function runInfo(path: string, options: Options): Promise<void> {
+  const transcoder = await openKTX2(await loadWasm(options.wasm), path);
+  try {
+    const info = getInfo(transcoder);
+    if (options.json) {
+      console.log(JSON.stringify(info, null, 2));
+    } else {
+      printInfo(path, info);
+    }
+  } finally {
+    transcoder.dispose();
+  }
+}
+
+async function runTranscode(path: string, options: Options): Promise<void> {
+  const format = parseFormat(options.format);
+  const out = options.out;
+  if (!out) {
+    throw new UsageError('--out is required');
+  }
+  const selection = {
+    level: parseIndex(options.level, '--level'),
+    layer: parseIndex(options.layer, '--layer'),
+    face: parseIndex(options.face, '--face'),
+  };
+  const writers: Record<string, (texture: TranscodedTexture, srgb: boolean) => Uint8Array> = {
+    '.dds': (texture, srgb) => writeDDS(texture, { srgb }),
+    '.ktx2': (texture, srgb) => writeKTX2(texture, { srgb }),
+    '.pvr': (texture, srgb) => writePVR(texture, { srgb }),
+    '.astc': (texture) => writeASTC(texture, selection),
+    '.png': (texture) => writePNG(texture, selection),
+  };
+  const write = writers[extname(out).toLowerCase()];
+  if (!write) {
+    throw new UsageError(`Unknown output extension "${extname(out)}", use .dds, .ktx2, .pvr, .astc or .png`);
+  }
+
+  const transcoder = await openKTX2(await loadWasm(options.wasm), path);
+  try {
+    const srgb = options.srgb ?? (options.linear ? false : transcoder.getDataFormatDescriptor()?.isSRGB ?? false);
+    const texture = transcoder.transcodeAll(format);
+    if (!texture) {
+      throw new Error(`${path} cannot be transcoded to ${getFormatName(format)} by this build.`);
+    }
+    await writeFile(out, write(texture, srgb));
+  } finally {
+    transcoder.dispose();
+  }
+}
+
+async function runDumpLevels(path: string, options: Options): Promise<void> {
+  const outDir = options['out-dir'] ?? '.';
+  const transcoder = await openKTX2(await loadWasm(options.wasm), path);
+  try {
+    const texture = transcodeForPNG(transcoder);
+    if (!texture) {
+      throw new Error(`${path} cannot be transcoded to RGBA.`);
+    }
+    await mkdir(outDir, { recursive: true });
+    const name = basename(path, extname(path));
+    for (let level = 0; level < texture.levelCount; level++) {
+      for (let layer = 0; layer < texture.layerCount; layer++) {
+        for (let face = 0; face < texture.faceCount; face++) {
+          const suffix = (texture.layerCount > 1 ? `_layer${layer}` : '') + (texture.faceCount > 1 ? `_face${face}` : '');
+          const file = join(outDir, `${name}_mip${level}${suffix}.png`);
+          await writeFile(file, writePNG(texture, { level, layer, face }));
+          console.log(file);
+        }
+      }
+    }
+  } finally {
+    transcoder.dispose();
+  }
+}
+
+async function runFormats(options: Options): Promise<void> {
+  const basisUniversal = await loadWasm(options.wasm);
+  const supported = basisTextureFormats.map(({ name, value }) => ({
+    name,
+    formats: new Set(basisUniversal.getSupportedFormats(value)),
+  }));
+
+  if (options.json) {
+    const matrix: Record<string, string[]> = {};
+    for (const { name, formats } of supported) {
+      matrix[name] = [...formats].map((format) => formatNames.get(format)!);
+    }
+    console.log(JSON.stringify(matrix, null, 2));
+    return;
+  }
+
+  const width = Math.max(...[...formatNames.values()].map((name) => name.length));
+  const lines = [['format'.padEnd(width), ...supported.map(({ name }) => name)].join('  ')];
+  for (const [format, name] of formatNames) {
+    lines.push([
+      name.padEnd(width),
+      ...supported.map((source) => (source.formats.has(format) ? 'x' : '-').padEnd(source.name.length)),
+    ].join('  '));
+  }
+  console.log(lines.join('\n'));
+}
+
+/**
+ * Run the tool
+ *
+ * @param args Command-line arguments without the node and script paths
+ * @returns The process exit code
+ */
+async function main(args: string[]): Promise<number> {
+  try {
+    const { values: options, positionals } = parseCommandLine(args);
+    const [command, path] = positionals;
+    if (options.help || !command) {
+      console.log(USAGE);
+      return options.help ? 0 : EXIT_USAGE;
+    }
+    if (command !== 'formats' && !path) {
+      throw new UsageError(`${command} needs a KTX2 file`);
+    }
+    if (options.srgb && options.linear) {
+      throw new UsageError('--srgb and --linear cannot be used together');
+    }
+
+    switch (command) {
+      case 'info':
+        await runInfo(path, options);
+        break;
+      case 'transcode':
+        await runTranscode(path, options);
+        break;
+      case 'dump-levels':
+        await runDumpLevels(path, options);
+        break;
+      case 'formats':
+        await runFormats(options);
+        break;
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+    return 0;
+  } catch (thrown) {
+    const error = thrown instanceof Error ? thrown : new Error(String(thrown));
+    // parseArgs reports unknown and malformed options as TypeErrors with an ERR_PARSE_ARGS code
+    const isUsageError = error instanceof UsageError ||
+      String((error as Error & { code?: unknown }).code).startsWith('ERR_PARSE_ARGS');
+    console.error(`basis-transcode: ${error.message}`);
+    if (isUsageError) {
+      console.error(USAGE);
+      return EXIT_USAGE;
+    }
+    return EXIT_FAILURE;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,240 @@
+/**
+ * KTX2 Data Format Descriptor (DFD) parsing
+ *
+ * Only the Khronos basic descriptor block is decoded, which is the block that
+ * carries the color model, primaries, transfer function and sample layout.
+ * See the Khronos Data Format Specification and khr_df.h for the values.
+ */
+
+export enum KTX2ColorModel {
+  UNSPECIFIED = 0,
+  RGBSDA = 1,
+  YUVSDA = 2,
+  YIQSDA = 3,
+  LABSDA = 4,
+  CMYKA = 5,
+  XYZW = 6,
+  HSVA_ANG = 7,
+  HSLA_ANG = 8,
+  HSVA_HEX = 9,
+  HSLA_HEX = 10,
+  YCGCOA = 11,
+  YCCBCCRC = 12,
+  ICTCP = 13,
+  CIEXYZ = 14,
+  CIEXYY = 15,
+  BC1A = 128,
+  BC2 = 129,
+  BC3 = 130,
+  BC4 = 131,
+  BC5 = 132,
+  BC6H = 133,
+  BC7 = 134,
+  ETC1 = 160,
+  ETC2 = 161,
+  ASTC = 162,
+  ETC1S = 163,
+  PVRTC = 164,
+  PVRTC2 = 165,
+  UASTC = 166,
+}
+
+export enum KTX2ColorPrimaries {
+  UNSPECIFIED = 0,
+  BT709 = 1,
+  BT601_EBU = 2,
+  BT601_SMPTE = 3,
+  BT2020 = 4,
+  CIEXYZ = 5,
+  ACES = 6,
+  ACESCC = 7,
+  NTSC1953 = 8,
+  PAL525 = 9,
+  DISPLAYP3 = 10,
+  ADOBERGB = 11,
+
+  SRGB = BT709,
+}
+
+export enum KTX2TransferFunction {
+  UNSPECIFIED = 0,
+  LINEAR = 1,
+  SRGB = 2,
+  ITU = 3,
+  NTSC = 4,
+  SLOG = 5,
+  SLOG2 = 6,
+  BT1886 = 7,
+  HLG_OETF = 8,
+  HLG_EOTF = 9,
+  PQ_EOTF = 10,
+  PQ_OETF = 11,
+  DCIP3 = 12,
+  PAL_OETF = 13,
+  PAL625_EOTF = 14,
+  ST240 = 15,
+  ACESCC = 16,
+  ACESCCT = 17,
+  ADOBERGB = 18,
+}
+
+export enum KTX2DFDFlags {
+  ALPHA_STRAIGHT = 0,
+  ALPHA_PREMULTIPLIED = 1,
+}
+
+/**
+ * Channel ids used by Basis Universal files in the sample `channelType` field
+ */
+export enum KTX2ChannelId {
+  // RGBSDA color model
+  RGBSDA_RED = 0,
+  RGBSDA_GREEN = 1,
+  RGBSDA_BLUE = 2,
+  RGBSDA_STENCIL = 13,
+  RGBSDA_DEPTH = 14,
+  RGBSDA_ALPHA = 15,
+
+  // ETC1S color model
+  ETC1S_RGB = 0,
+  ETC1S_RRR = 3,
+  ETC1S_GGG = 4,
+  ETC1S_AAA = 15,
+
+  // UASTC color model
+  UASTC_RGB = 0,
+  UASTC_RGBA = 3,
+  UASTC_RRR = 4,
+  UASTC_RRRG = 5,
+  UASTC_RG = 6,
+}
+
+export interface KTX2DFDSample {
+  /** Offset of the first bit of the sample within the texel block */
+  bitOffset: number;
+  /** Number of bits in the sample */
+  bitLength: number;
+  /** Channel id, interpreted according to the color model */
+  channelId: number;
+  /** The sample is a floating-point value */
+  isFloat: boolean;
+  /** The sample is signed */
+  isSigned: boolean;
+  /** The sample is an exponent */
+  isExponent: boolean;
+  /** The sample is linear even if the transfer function is not */
+  isLinear: boolean;
+  /** Sample position within the texel block in 1/256ths of a texel */
+  samplePosition: [number, number, number, number];
+  sampleLower: number;
+  sampleUpper: number;
+}
+
+const KHR_DF_VENDORID_KHRONOS = 0;
+const KHR_DF_DESCRIPTORTYPE_BASICFORMAT = 0;
+const BASIC_BLOCK_HEADER_SIZE = 24;
+const SAMPLE_SIZE = 16;
+
+/**
+ * Decoded basic descriptor block of a KTX2 Data Format Descriptor
+ */
+export class KTX2DataFormatDescriptor {
+  constructor(
+    readonly vendorId: number,
+    readonly descriptorType: number,
+    readonly versionNumber: number,
+    readonly colorModel: KTX2ColorModel,
+    readonly colorPrimaries: KTX2ColorPrimaries,
+    readonly transferFunction: KTX2TransferFunction,
+    readonly flags: KTX2DFDFlags,
+    /** Texel block width, height, depth and fourth dimension (already incremented by one) */
+    readonly texelBlockDimension: [number, number, number, number],
+    readonly bytesPlane: number[],
+    readonly samples: KTX2DFDSample[],
+  ) { }
+
+  /** true if color samples are encoded with the sRGB transfer function */
+  get isSRGB(): boolean {
+    return this.transferFunction === KTX2TransferFunction.SRGB;
+  }
+
+  /** true if color values are premultiplied by alpha */
+  get isPremultiplied(): boolean {
+    return (this.flags & KTX2DFDFlags.ALPHA_PREMULTIPLIED) !== 0;
+  }
+}
+
+/**
+ * Parse a KTX2 Data Format Descriptor.
+ *
+ * @param dfd The DFD block (not the whole file), starting with its dfdTotalSize field
+ * @returns The decoded basic descriptor block, or null if none is present or the data is truncated
+ */
+export function parseKTX2DataFormatDescriptor(dfd: Uint8Array): KTX2DataFormatDescriptor | null {
+  const view = new DataView(dfd.buffer, dfd.byteOffset, dfd.byteLength);
+  if (dfd.length < 4) {
+    return null;
+  }
+  const totalSize = Math.min(view.getUint32(0, true), dfd.length);
+  let offset = 4;
+  while (offset + 8 <= totalSize) {
+    const word0 = view.getUint32(offset, true);
+    const word1 = view.getUint32(offset + 4, true);
+    const vendorId = word0 & 0x1ffff;
+    const descriptorType = word0 >>> 17;
+    const versionNumber = word1 & 0xffff;
+    const blockSize = word1 >>> 16;
+    if (blockSize < 8 || offset + blockSize > totalSize) {
+      return null;
+    }
+
+    if (vendorId === KHR_DF_VENDORID_KHRONOS &&
+      descriptorType === KHR_DF_DESCRIPTORTYPE_BASICFORMAT &&
+      blockSize >= BASIC_BLOCK_HEADER_SIZE) {
+      const sampleCount = Math.floor((blockSize - BASIC_BLOCK_HEADER_SIZE) / SAMPLE_SIZE);
+      const samples: KTX2DFDSample[] = [];
+      for (let i = 0; i < sampleCount; i++) {
+        const s = offset + BASIC_BLOCK_HEADER_SIZE + i * SAMPLE_SIZE;
+        const channelType = view.getUint8(s + 3);
+        samples.push({
+          bitOffset: view.getUint16(s, true),
+          bitLength: view.getUint8(s + 2) + 1,
+          channelId: channelType & 0x0f,
+          isLinear: (channelType & 0x10) !== 0,
+          isExponent: (channelType & 0x20) !== 0,
+          isSigned: (channelType & 0x40) !== 0,
+          isFloat: (channelType & 0x80) !== 0,
+          samplePosition: [
+            view.getUint8(s + 4),
+            view.getUint8(s + 5),
+            view.getUint8(s + 6),
+            view.getUint8(s + 7),
+          ],
+          sampleLower: view.getUint32(s + 8, true),
+          sampleUpper: view.getUint32(s + 12, true),
+        });
+      }
+
+      return new KTX2DataFormatDescriptor(
+        vendorId,
+        descriptorType,
+        versionNumber,
+        view.getUint8(offset + 8),
+        view.getUint8(offset + 9),
+        view.getUint8(offset + 10),
+        view.getUint8(offset + 11),
+        [
+          view.getUint8(offset + 12) + 1,
+          view.getUint8(offset + 13) + 1,
+          view.getUint8(offset + 14) + 1,
+          view.getUint8(offset + 15) + 1,
+        ],
+        Array.from(dfd.subarray(offset + 16, offset + 24)),
+        samples,
+      );
+    }
+
+    offset += blockSize;
+  }
+  return null;
+}
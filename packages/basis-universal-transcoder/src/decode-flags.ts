@@ -0,0 +1,73 @@
+import { BasisTextureFormat, DecodeFlags, TranscodeOptions, TranscoderTextureFormat } from './types';
+import { getFormatName } from './utils';
+
+/**
+ * Decode flag helpers
+ */
+
+// Opaque formats that output the alpha slice with cDecodeFlagsTranscodeAlphaDataToOpaqueFormats
+const opaqueFormats = new Set<TranscoderTextureFormat>([
+  TranscoderTextureFormat.cTFETC1_RGB,
+  TranscoderTextureFormat.cTFBC1_RGB,
+  TranscoderTextureFormat.cTFBC4_R,
+  TranscoderTextureFormat.cTFPVRTC1_4_RGB,
+  TranscoderTextureFormat.cTFATC_RGB,
+  TranscoderTextureFormat.cTFFXT1_RGB,
+  TranscoderTextureFormat.cTFPVRTC2_4_RGB,
+  TranscoderTextureFormat.cTFETC2_EAC_R11,
+  TranscoderTextureFormat.cTFRGB565,
+  TranscoderTextureFormat.cTFBGR565,
+]);
+
+/**
+ * Combine the raw decodeFlags of transcode options with the flags set by the boolean options
+ */
+export function getDecodeFlags(options: Omit<TranscodeOptions, 'format'>): DecodeFlags {
+  let flags = options.decodeFlags ?? DecodeFlags.cDecodeFlagsNone;
+  if (options.getAlphaForOpaqueFormats) {
+    flags |= DecodeFlags.cDecodeFlagsTranscodeAlphaDataToOpaqueFormats;
+  }
+  if (options.highQuality) {
+    flags |= DecodeFlags.cDecodeFlagsHighQuality;
+  }
+  return flags;
+}
+
+/**
+ * Check decode flags against the target format and, if known, the source format
+ *
+ * @returns null if the combination is valid, otherwise the reason it is not
+ */
+export function validateDecodeFlags(
+  flags: DecodeFlags,
+  format: TranscoderTextureFormat,
+  basisTexFormat?: BasisTextureFormat
+): string | null {
+  const known = DecodeFlags.cDecodeFlagsPVRTCDecodeToNextPow2 |
+    DecodeFlags.cDecodeFlagsTranscodeAlphaDataToOpaqueFormats |
+    DecodeFlags.cDecodeFlagsBC1ForbidThreeColorBlocks |
+    DecodeFlags.cDecodeFlagsOutputHasAlphaIndices |
+    DecodeFlags.cDecodeFlagsHighQuality |
+    DecodeFlags.cDecodeFlagsNoETC1SChromaFiltering;
+  if (flags & ~known) {
+    return `Unknown decode flags 0x${(flags & ~known).toString(16)}.`;
+  }
+  if (flags & DecodeFlags.cDecodeFlagsOutputHasAlphaIndices) {
+    return 'cDecodeFlagsOutputHasAlphaIndices is used internally by the transcoder and cannot be set.';
+  }
+  if ((flags & DecodeFlags.cDecodeFlagsPVRTCDecodeToNextPow2) &&
+    format !== TranscoderTextureFormat.cTFPVRTC1_4_RGB && format !== TranscoderTextureFormat.cTFPVRTC1_4_RGBA) {
+    return 'cDecodeFlagsPVRTCDecodeToNextPow2 requires a PVRTC1 target format.';
+  }
+  if ((flags & DecodeFlags.cDecodeFlagsTranscodeAlphaDataToOpaqueFormats) && !opaqueFormats.has(format)) {
+    return `cDecodeFlagsTranscodeAlphaDataToOpaqueFormats (getAlphaForOpaqueFormats) requires an opaque target format, ${getFormatName(format)} has alpha.`;
+  }
+  if ((flags & DecodeFlags.cDecodeFlagsBC1ForbidThreeColorBlocks) && format !== TranscoderTextureFormat.cTFBC1_RGB) {
+    return 'cDecodeFlagsBC1ForbidThreeColorBlocks requires the BC1 target format.';
+  }
+  if ((flags & DecodeFlags.cDecodeFlagsNoETC1SChromaFiltering) &&
+    basisTexFormat !== undefined && basisTexFormat !== BasisTextureFormat.cETC1S) {
+    return 'cDecodeFlagsNoETC1SChromaFiltering requires an ETC1S source.';
+  }
+  return null;
+}
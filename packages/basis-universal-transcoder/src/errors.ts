@@ -0,0 +1,65 @@
+import { TranscoderTextureFormat } from './types';
+
+/**
+ * Stable error codes reported by TranscodeError.
+ * The string values are part of the public API and safe to log or match on.
+ */
+export enum TranscodeErrorCode {
+  /** The transcoder (or its BasisUniversal instance) has been disposed */
+  Disposed = 'DISPOSED',
+  /** A method that needs file data was called before a successful init() */
+  NotInitialized = 'NOT_INITIALIZED',
+  /** The data is not a KTX2 file or its header is truncated */
+  InvalidHeader = 'INVALID_HEADER',
+  /** The header looks valid but the file could not be parsed */
+  CorruptFile = 'CORRUPT_FILE',
+  /** The file is Zstandard supercompressed and this build has no Zstandard support, or the file is corrupt */
+  ZstdNotSupported = 'ZSTD_NOT_SUPPORTED',
+  /** The supercompression scheme (e.g. ZLIB) is not supported by the transcoder */
+  UnsupportedSupercompression = 'UNSUPPORTED_SUPERCOMPRESSION',
+  /** start_transcoding() failed, usually corrupt BasisLZ global data */
+  StartTranscodingFailed = 'START_TRANSCODING_FAILED',
+  LevelOutOfRange = 'LEVEL_OUT_OF_RANGE',
+  LayerOutOfRange = 'LAYER_OUT_OF_RANGE',
+  FaceOutOfRange = 'FACE_OUT_OF_RANGE',
+  /** The target format cannot be produced from this source format by this build */
+  UnsupportedFormat = 'UNSUPPORTED_FORMAT',
+  /** The decode flags are invalid or do not apply to the target format */
+  InvalidDecodeFlags = 'INVALID_DECODE_FLAGS',
+  /** TranscodeOptions.channels does not fit the target format */
+  InvalidChannels = 'INVALID_CHANNELS',
+  /** The transcodeImageLevelInto() target is too small or its layout is invalid */
+  InvalidTarget = 'INVALID_TARGET',
+  /** A WASM heap allocation failed */
+  AllocationFailed = 'ALLOCATION_FAILED',
+  /** The transcoder rejected the image, usually corrupt image data */
+  TranscodeFailed = 'TRANSCODE_FAILED',
+}
+
+export interface TranscodeErrorContext {
+  level?: number;
+  layer?: number;
+  face?: number;
+  format?: TranscoderTextureFormat;
+}
+
+/**
+ * Error thrown by the throwing transcoder variants (initOrThrow, transcodeImageLevelOrThrow, ...)
+ */
+export class TranscodeError extends Error {
+  readonly code: TranscodeErrorCode;
+  readonly level?: number;
+  readonly layer?: number;
+  readonly face?: number;
+  readonly format?: TranscoderTextureFormat;
+
+  constructor(code: TranscodeErrorCode, message: string, context: TranscodeErrorContext = {}) {
+    super(message);
+    this.name = 'TranscodeError';
+    this.code = code;
+    this.level = context.level;
+    this.layer = context.layer;
+    this.face = context.face;
+    this.format = context.format;
+  }
+}
@@ -0,0 +1,226 @@
+import { BasisTextureFormat, TranscoderTextureFormat } from './types';
+
+/**
+ * Content-aware transcode target selection
+ *
+ * Follows the Basis Universal guidance: ETC1S maps cheaply onto ETC1/BC1/BC3,
+ * UASTC is meant for ASTC/BC7, one- and two-channel data goes to BC4/BC5/EAC,
+ * and HDR sources go to ASTC HDR/BC6H or half float.
+ */
+
+/**
+ * GPU texture capabilities. Plain object so selection can be tested without a GPU.
+ */
+export interface TextureCapabilities {
+  /** ASTC LDR (WEBGL_compressed_texture_astc, texture-compression-astc) */
+  astc?: boolean;
+  /** ASTC HDR profile */
+  astcHDR?: boolean;
+  /** BC7 and BC6H (EXT_texture_compression_bptc) */
+  bptc?: boolean;
+  /** BC1 and BC3 (WEBGL_compressed_texture_s3tc) */
+  s3tc?: boolean;
+  /** BC4 and BC5 (EXT_texture_compression_rgtc) */
+  rgtc?: boolean;
+  /** ETC1 RGB (WEBGL_compressed_texture_etc1) */
+  etc1?: boolean;
+  /** ETC2 RGB/RGBA and EAC R11/RG11 (WEBGL_compressed_texture_etc) */
+  etc2?: boolean;
+  /** PVRTC1 (WEBGL_compressed_texture_pvrtc) */
+  pvrtc?: boolean;
+  /** Uncompressed half float textures */
+  halfFloat?: boolean;
+  /** Uncompressed RGB9_E5 shared exponent textures */
+  rgb9e5?: boolean;
+}
+
+export enum TextureUsage {
+  /** Color data, RGB or RGBA */
+  Color = 0,
+  /** Tangent space normal map with X in R and Y in alpha, the layout TranscodeOptions.channels defaults to */
+  NormalMap = 1,
+  /** Single channel data such as roughness or occlusion */
+  SingleChannel = 2,
+  /** Two independent channels, for example packed roughness/metallic */
+  TwoChannel = 3,
+}
+
+export interface TextureSourceInfo {
+  basisFormat: BasisTextureFormat;
+  /** Image alpha flag, see KTX2ImageLevelInfo.alphaFlag */
+  hasAlpha: boolean;
+  usage?: TextureUsage;
+  /** Texture width, used to rule out PVRTC1 for non power-of-two textures */
+  width?: number;
+  /** Texture height, used to rule out PVRTC1 for non power-of-two textures */
+  height?: number;
+}
+
+export interface FormatSelectionPreferences {
+  /** Append an uncompressed fallback to the candidates. Default true. */
+  allowUncompressed?: boolean;
+  /** Use 16-bit RGB565/RGBA4444 instead of RGBA32 as the LDR uncompressed fallback. Default false. */
+  lowMemoryFallback?: boolean;
+  /** Allow PVRTC1, which has the lowest quality of all formats. Default true. */
+  allowPVRTC?: boolean;
+}
+
+function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+/**
+ * Select transcode targets for a texture on a GPU
+ *
+ * @param capabilities GPU capabilities, see getWebGLCapabilities()
+ * @param textureInfo Source texture properties
+ * @param preferences Selection preferences
+ * @returns Candidate formats, best first. Empty only if uncompressed fallbacks are disabled and nothing matches.
+ */
+export function selectTranscodeFormat(
+  capabilities: TextureCapabilities,
+  textureInfo: TextureSourceInfo,
+  preferences: FormatSelectionPreferences = {}
+): TranscoderTextureFormat[] {
+  const { basisFormat, hasAlpha, usage = TextureUsage.Color, width, height } = textureInfo;
+  const { allowUncompressed = true, lowMemoryFallback = false, allowPVRTC = true } = preferences;
+  const caps = capabilities;
+  const candidates: TranscoderTextureFormat[] = [];
+  const add = (supported: boolean | undefined, format: TranscoderTextureFormat) => {
+    if (supported && !candidates.includes(format)) {
+      candidates.push(format);
+    }
+  };
+
+  // HDR sources
+  if (basisFormat === BasisTextureFormat.cUASTC_HDR_4x4 ||
+    basisFormat === BasisTextureFormat.cASTC_HDR_6x6 ||
+    basisFormat === BasisTextureFormat.cASTC_HDR_6x6_INTERMEDIATE) {
+    add(caps.astcHDR, basisFormat === BasisTextureFormat.cUASTC_HDR_4x4
+      ? TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA
+      : TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA);
+    add(caps.bptc, TranscoderTextureFormat.cTFBC6H);
+    add(allowUncompressed && caps.halfFloat, TranscoderTextureFormat.cTFRGBA_HALF);
+    return candidates;
+  }
+
+  const isETC1S = basisFormat === BasisTextureFormat.cETC1S;
+
+  // One- and two-channel data
+  if (usage === TextureUsage.SingleChannel) {
+    add(caps.rgtc, TranscoderTextureFormat.cTFBC4_R);
+    add(caps.etc2, TranscoderTextureFormat.cTFETC2_EAC_R11);
+  } else if (usage === TextureUsage.NormalMap || usage === TextureUsage.TwoChannel) {
+    add(caps.rgtc, TranscoderTextureFormat.cTFBC5_RG);
+    add(caps.etc2, TranscoderTextureFormat.cTFETC2_EAC_RG11);
+  }
+
+  // Color formats, also the fallback for channel data
+  const pvrtc = allowPVRTC && caps.pvrtc &&
+    (width === undefined || height === undefined || (isPowerOfTwo(width) && isPowerOfTwo(height) && width === height));
+  const etc = hasAlpha ? caps.etc2 : (caps.etc1 || caps.etc2);
+  const etcFormat = hasAlpha ? TranscoderTextureFormat.cTFETC2_RGBA : TranscoderTextureFormat.cTFETC1_RGB;
+  const bcFormat = hasAlpha ? TranscoderTextureFormat.cTFBC3_RGBA : TranscoderTextureFormat.cTFBC1_RGB;
+  const pvrtcFormat = hasAlpha ? TranscoderTextureFormat.cTFPVRTC1_4_RGBA : TranscoderTextureFormat.cTFPVRTC1_4_RGB;
+
+  if (isETC1S) {
+    add(etc, etcFormat);
+    add(caps.s3tc, bcFormat);
+    add(caps.bptc, TranscoderTextureFormat.cTFBC7_RGBA);
+    add(caps.astc, TranscoderTextureFormat.cTFASTC_4x4_RGBA);
+  } else {
+    add(caps.astc, TranscoderTextureFormat.cTFASTC_4x4_RGBA);
+    add(caps.bptc, TranscoderTextureFormat.cTFBC7_RGBA);
+    add(etc, etcFormat);
+    add(caps.s3tc, bcFormat);
+  }
+  add(pvrtc, pvrtcFormat);
+
+  if (allowUncompressed) {
+    if (lowMemoryFallback) {
+      add(true, hasAlpha ? TranscoderTextureFormat.cTFRGBA4444 : TranscoderTextureFormat.cTFRGB565);
+    } else {
+      add(true, TranscoderTextureFormat.cTFRGBA32);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Query the capabilities of a WebGL or WebGL2 context.
+ * Querying an extension also enables it.
+ */
+export function getWebGLCapabilities(gl: WebGLRenderingContext | WebGL2RenderingContext): TextureCapabilities {
+  const astc = gl.getExtension('WEBGL_compressed_texture_astc');
+  const isWebGL2 = typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext;
+  return {
+    astc: !!astc,
+    astcHDR: !!astc && astc.getSupportedProfiles().includes('hdr'),
+    bptc: !!gl.getExtension('EXT_texture_compression_bptc'),
+    s3tc: !!gl.getExtension('WEBGL_compressed_texture_s3tc'),
+    rgtc: !!gl.getExtension('EXT_texture_compression_rgtc'),
+    etc1: !!gl.getExtension('WEBGL_compressed_texture_etc1'),
+    etc2: !!gl.getExtension('WEBGL_compressed_texture_etc'),
+    pvrtc: !!(gl.getExtension('WEBGL_compressed_texture_pvrtc') || gl.getExtension('WEBKIT_WEBGL_compressed_texture_pvrtc')),
+    halfFloat: isWebGL2 || !!gl.getExtension('OES_texture_half_float'),
+    rgb9e5: isWebGL2,
+  };
+}
+
+/**
+ * Check whether transcoded data in the given format can be uploaded on a GPU with these capabilities.
+ *
+ * This says nothing about whether the WASM build can produce the format, see BasisUniversal.isFormatTranscodable().
+ */
+export function isFormatUploadable(format: TranscoderTextureFormat, capabilities: TextureCapabilities): boolean {
+  const caps = capabilities;
+  switch (format) {
+    case TranscoderTextureFormat.cTFETC1_RGB:
+      return !!(caps.etc1 || caps.etc2);
+
+    case TranscoderTextureFormat.cTFETC2_RGBA:
+    case TranscoderTextureFormat.cTFETC2_EAC_R11:
+    case TranscoderTextureFormat.cTFETC2_EAC_RG11:
+      return !!caps.etc2;
+
+    case TranscoderTextureFormat.cTFBC1_RGB:
+    case TranscoderTextureFormat.cTFBC3_RGBA:
+      return !!caps.s3tc;
+
+    case TranscoderTextureFormat.cTFBC4_R:
+    case TranscoderTextureFormat.cTFBC5_RG:
+      return !!caps.rgtc;
+
+    case TranscoderTextureFormat.cTFBC6H:
+    case TranscoderTextureFormat.cTFBC7_RGBA:
+      return !!caps.bptc;
+
+    case TranscoderTextureFormat.cTFASTC_4x4_RGBA:
+      return !!caps.astc;
+
+    case TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA:
+    case TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA:
+      return !!caps.astcHDR;
+
+    case TranscoderTextureFormat.cTFPVRTC1_4_RGB:
+    case TranscoderTextureFormat.cTFPVRTC1_4_RGBA:
+      return !!caps.pvrtc;
+
+    case TranscoderTextureFormat.cTFRGBA32:
+    case TranscoderTextureFormat.cTFRGB565:
+    case TranscoderTextureFormat.cTFRGBA4444:
+      return true; // Always supported
+
+    case TranscoderTextureFormat.cTFRGB_HALF:
+    case TranscoderTextureFormat.cTFRGBA_HALF:
+      return !!caps.halfFloat;
+
+    case TranscoderTextureFormat.cTFRGB_9E5:
+      return !!caps.rgb9e5;
+
+    default:
+      // BGR565, PVRTC2, ATC and FXT1 have no upload path in WebGL/WebGPU
+      return false;
+  }
+}
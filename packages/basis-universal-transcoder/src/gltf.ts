@@ -0,0 +1,299 @@
+import { BasisUniversal } from './index';
+import { BasisTextureFormat, TranscodedTexture, TranscodeOptions, TranscoderTextureFormat } from './types';
+import { getFormatName } from './utils';
+
+/**
+ * glTF KHR_texture_basisu support
+ *
+ * Finds the KTX2 images of a GLB or glTF asset through the KHR_texture_basisu extension,
+ * transcodes them and infers each texture's color space from the material slots using it.
+ * Works in browsers and Node.js, external files are read through a caller supplied resolver.
+ */
+
+/**
+ * The parts of a glTF JSON document used here. Other properties are ignored.
+ */
+export interface GLTFDocument {
+  buffers?: { uri?: string; byteLength: number }[];
+  bufferViews?: { buffer: number; byteOffset?: number; byteLength: number }[];
+  images?: { uri?: string; bufferView?: number; mimeType?: string }[];
+  textures?: { source?: number; extensions?: Record<string, unknown> }[];
+  materials?: Record<string, unknown>[];
+  extensionsUsed?: string[];
+}
+
+/**
+ * Read an external buffer or image by its URI, relative to the glTF file
+ */
+export type GLTFUriResolver = (uri: string) => Promise<Uint8Array>;
+
+export type GLTFTextureColorSpace = 'srgb' | 'linear';
+
+export interface GLTFTextureSourceInfo {
+  textureIndex: number;
+  basisFormat: BasisTextureFormat;
+  hasAlpha: boolean;
+  colorSpace: GLTFTextureColorSpace;
+}
+
+export interface GLTFBasisTranscodeOptions {
+  /** Target format, or a function choosing one per texture */
+  format: TranscoderTextureFormat | ((info: GLTFTextureSourceInfo) => TranscoderTextureFormat);
+  /** Resolver for external URIs. data: URIs and the GLB binary chunk need none. */
+  resolveUri?: GLTFUriResolver;
+  /** Options applied to every image, see KTX2Transcoder.transcodeAll() */
+  transcodeOptions?: Omit<TranscodeOptions, 'format' | 'level' | 'layer' | 'face'>;
+}
+
+export interface GLTFBasisTexture {
+  textureIndex: number;
+  /** Index of the KTX2 image in the glTF images array */
+  imageIndex: number;
+  /** sRGB if a baseColor or emissive slot uses the texture, linear otherwise */
+  colorSpace: GLTFTextureColorSpace;
+  /** Material slots using the texture, e.g. "materials[0].pbrMetallicRoughness.baseColorTexture" */
+  slots: string[];
+  texture: TranscodedTexture;
+}
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+const KHR_TEXTURE_BASISU = 'KHR_texture_basisu';
+const SRGB_SLOTS = new Set(['baseColorTexture', 'emissiveTexture']);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isTextureInfo(value: unknown): value is { index: number } {
+  return isObject(value) && typeof value.index === 'number';
+}
+
+/**
+ * Check whether the data starts with the GLB magic
+ */
+export function isGLBData(data: Uint8Array): boolean {
+  return data.length >= 12 && new DataView(data.buffer, data.byteOffset, 12).getUint32(0, true) === GLB_MAGIC;
+}
+
+/**
+ * Split a GLB file into its JSON document and binary chunk
+ *
+ * @throws Error if the data is not a valid GLB 2.0 file
+ */
+export function parseGLB(data: Uint8Array): { json: GLTFDocument; bin: Uint8Array | null } {
+  if (!isGLBData(data)) {
+    throw new Error('Not a GLB file.');
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new Error(`Unsupported GLB version ${version}.`);
+  }
+  const length = Math.min(view.getUint32(8, true), data.length);
+
+  let json: GLTFDocument | null = null;
+  let bin: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= length) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    if (start + chunkLength > length) {
+      throw new Error('GLB chunk extends past the end of the file.');
+    }
+    const chunk = data.subarray(start, start + chunkLength);
+    if (chunkType === GLB_CHUNK_JSON && !json) {
+      json = JSON.parse(new TextDecoder().decode(chunk));
+    } else if (chunkType === GLB_CHUNK_BIN && !bin) {
+      bin = chunk;
+    }
+    offset = start + ((chunkLength + 3) & ~3);
+  }
+  if (!json) {
+    throw new Error('GLB file has no JSON chunk.');
+  }
+  return { json, bin };
+}
+
+/**
+ * Collect the material slots using each texture, keyed by texture index
+ *
+ * Core slots and the texture infos of material extensions are included.
+ */
+export function getGLTFTextureSlots(json: GLTFDocument): Map<number, string[]> {
+  const slots = new Map<number, string[]>();
+  const addSlots = (owner: unknown, path: string) => {
+    if (!isObject(owner)) {
+      return;
+    }
+    for (const [key, value] of Object.entries(owner)) {
+      if (key.endsWith('Texture') && isTextureInfo(value)) {
+        slots.set(value.index, [...(slots.get(value.index) ?? []), `${path}.${key}`]);
+      }
+    }
+  };
+
+  (json.materials ?? []).forEach((material, i) => {
+    const path = `materials[${i}]`;
+    addSlots(material, path);
+    addSlots(material.pbrMetallicRoughness, `${path}.pbrMetallicRoughness`);
+    if (isObject(material.extensions)) {
+      for (const [name, extension] of Object.entries(material.extensions)) {
+        addSlots(extension, `${path}.extensions.${name}`);
+      }
+    }
+  });
+  return slots;
+}
+
+/**
+ * Color space of a texture from the slots using it: sRGB for baseColor and emissive, linear otherwise
+ */
+export function getGLTFTextureColorSpace(slots: string[]): GLTFTextureColorSpace {
+  return slots.some((slot) => SRGB_SLOTS.has(slot.slice(slot.lastIndexOf('.') + 1))) ? 'srgb' : 'linear';
+}
+
+function decodeDataUri(uri: string): Uint8Array {
+  const comma = uri.indexOf(',');
+  const payload = uri.slice(comma + 1);
+  if (!uri.slice(0, comma).endsWith(';base64')) {
+    return new TextEncoder().encode(decodeURIComponent(payload));
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Loads URIs and buffers once per asset
+ */
+class GLTFResourceLoader {
+  private readonly buffers = new Map<number, Promise<Uint8Array>>();
+
+  constructor(
+    private readonly json: GLTFDocument,
+    private readonly bin: Uint8Array | null,
+    private readonly resolveUri: GLTFUriResolver | undefined,
+  ) { }
+
+  loadUri(uri: string): Promise<Uint8Array> {
+    if (uri.startsWith('data:')) {
+      return Promise.resolve(decodeDataUri(uri));
+    }
+    if (!this.resolveUri) {
+      return Promise.reject(new Error(`No resolveUri given to load "${uri}".`));
+    }
+    return this.resolveUri(uri);
+  }
+
+  loadBuffer(index: number): Promise<Uint8Array> {
+    let buffer = this.buffers.get(index);
+    if (!buffer) {
+      const definition = this.json.buffers?.[index];
+      if (!definition) {
+        buffer = Promise.reject(new Error(`Buffer ${index} does not exist.`));
+      } else if (definition.uri !== undefined) {
+        buffer = this.loadUri(definition.uri);
+      } else if (index === 0 && this.bin) {
+        buffer = Promise.resolve(this.bin);
+      } else {
+        buffer = Promise.reject(new Error(`Buffer ${index} has no URI and there is no GLB binary chunk.`));
+      }
+      this.buffers.set(index, buffer);
+    }
+    return buffer;
+  }
+
+  async loadImage(index: number): Promise<Uint8Array> {
+    const image = this.json.images?.[index];
+    if (!image) {
+      throw new Error(`Image ${index} does not exist.`);
+    }
+    if (image.uri !== undefined) {
+      return this.loadUri(image.uri);
+    }
+    const bufferView = image.bufferView !== undefined ? this.json.bufferViews?.[image.bufferView] : undefined;
+    if (!bufferView) {
+      throw new Error(`Image ${index} has neither a URI nor a valid bufferView.`);
+    }
+    const buffer = await this.loadBuffer(bufferView.buffer);
+    const start = bufferView.byteOffset ?? 0;
+    if (start + bufferView.byteLength > buffer.length) {
+      throw new Error(`The bufferView of image ${index} extends past the end of buffer ${bufferView.buffer}.`);
+    }
+    return buffer.subarray(start, start + bufferView.byteLength);
+  }
+}
+
+/**
+ * Transcode every KHR_texture_basisu texture of a GLB or glTF asset
+ *
+ * Textures without the extension are skipped. Textures sharing an image and target format
+ * share the transcoded data.
+ *
+ * @param basisUniversal Transcoder instance, e.g. from loadNode()
+ * @param asset GLB or .gltf file data, or an already parsed glTF JSON document
+ * @param options Target format and URI resolver
+ * @returns The transcoded textures, keyed by texture index
+ * @throws Error or TranscodeError if an image cannot be loaded or transcoded
+ */
+export async function transcodeGLTFBasisTextures(
+  basisUniversal: BasisUniversal,
+  asset: Uint8Array | GLTFDocument,
+  options: GLTFBasisTranscodeOptions
+): Promise<Map<number, GLTFBasisTexture>> {
+  let json: GLTFDocument;
+  let bin: Uint8Array | null = null;
+  if (!(asset instanceof Uint8Array)) {
+    json = asset;
+  } else if (isGLBData(asset)) {
+    ({ json, bin } = parseGLB(asset));
+  } else {
+    json = JSON.parse(new TextDecoder().decode(asset));
+  }
+
+  const loader = new GLTFResourceLoader(json, bin, options.resolveUri);
+  const slots = getGLTFTextureSlots(json);
+  const results = new Map<number, GLTFBasisTexture>();
+  const transcoded = new Map<string, TranscodedTexture>();
+  const transcoder = basisUniversal.createKTX2Transcoder();
+  try {
+    for (const [textureIndex, texture] of (json.textures ?? []).entries()) {
+      const basisu = texture.extensions?.[KHR_TEXTURE_BASISU];
+      const imageIndex = isObject(basisu) ? basisu.source : undefined;
+      if (typeof imageIndex !== 'number') {
+        continue;
+      }
+      const textureSlots = slots.get(textureIndex) ?? [];
+      const colorSpace = getGLTFTextureColorSpace(textureSlots);
+
+      transcoder.initOrThrow(await loader.loadImage(imageIndex));
+      const basisFormat = transcoder.getBasisTextureFormat();
+      const format = typeof options.format === 'number' ? options.format : options.format({
+        textureIndex,
+        basisFormat,
+        hasAlpha: transcoder.getImageLevelInfo(0, 0, 0)?.alphaFlag ?? false,
+        colorSpace,
+      });
+
+      const key = `${imageIndex}:${format}`;
+      let result = transcoded.get(key);
+      if (!result) {
+        result = transcoder.transcodeAll(format, options.transcodeOptions) ?? undefined;
+        if (!result) {
+          throw new Error(`Texture ${textureIndex} (image ${imageIndex}) could not be transcoded to ${getFormatName(format)}.`);
+        }
+        transcoded.set(key, result);
+      }
+      results.set(textureIndex, { textureIndex, imageIndex, colorSpace, slots: textureSlots, texture: result });
+    }
+  } finally {
+    transcoder.dispose();
+  }
+  return results;
+}
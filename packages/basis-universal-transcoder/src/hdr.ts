@@ -0,0 +1,134 @@
+import { TranscoderTextureFormat } from './types';
+
+/**
+ * HDR output helpers
+ *
+ * Convert the uncompressed HDR transcoder outputs (RGB/RGBA half float and RGB 9E5)
+ * to floats, and tone-map floats to RGBA8 for previews.
+ */
+
+export enum ToneMapping {
+  /** Clamp to [0, 1] */
+  Clamp = 0,
+  /** x / (1 + x) */
+  Reinhard = 1,
+  /** Narkowicz's ACES filmic curve fit */
+  ACESFilmic = 2,
+}
+
+export interface ToneMapOptions {
+  /** Linear scale applied before tone mapping, in stops (2^exposure). Default 0. */
+  exposure?: number;
+  toneMapping?: ToneMapping;
+  /** Encode the result as sRGB. Default true. */
+  srgb?: boolean;
+}
+
+const float32 = new Float32Array(1);
+const uint32 = new Uint32Array(float32.buffer);
+
+/**
+ * Convert an IEEE 754 half float to a number
+ */
+export function halfToFloat(half: number): number {
+  const sign = (half & 0x8000) << 16;
+  const exponent = (half >>> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  if (exponent === 0) {
+    // Zero or subnormal
+    const value = mantissa * 2 ** -24;
+    return sign ? -value : value;
+  }
+  if (exponent === 0x1f) {
+    // Infinity or NaN
+    uint32[0] = sign | 0x7f800000 | (mantissa << 13);
+  } else {
+    uint32[0] = sign | ((exponent + 112) << 23) | (mantissa << 13);
+  }
+  return float32[0];
+}
+
+/**
+ * Decode transcoded HDR pixels to RGBA floats
+ *
+ * @param data Output of transcodeImageLevel() in cTFRGBA_HALF, cTFRGB_HALF or cTFRGB_9E5
+ * @param format The format of data
+ * @returns Four floats per pixel, alpha is 1 for RGB formats
+ */
+export function decodeHDRToFloat32(data: Uint8Array, format: TranscoderTextureFormat): Float32Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  switch (format) {
+    case TranscoderTextureFormat.cTFRGBA_HALF:
+    case TranscoderTextureFormat.cTFRGB_HALF: {
+      const components = format === TranscoderTextureFormat.cTFRGBA_HALF ? 4 : 3;
+      const pixelCount = Math.floor(data.byteLength / (components * 2));
+      const out = new Float32Array(pixelCount * 4);
+      for (let i = 0; i < pixelCount; i++) {
+        for (let c = 0; c < components; c++) {
+          out[i * 4 + c] = halfToFloat(view.getUint16((i * components + c) * 2, true));
+        }
+        if (components === 3) {
+          out[i * 4 + 3] = 1;
+        }
+      }
+      return out;
+    }
+
+    case TranscoderTextureFormat.cTFRGB_9E5: {
+      const pixelCount = Math.floor(data.byteLength / 4);
+      const out = new Float32Array(pixelCount * 4);
+      for (let i = 0; i < pixelCount; i++) {
+        const packed = view.getUint32(i * 4, true);
+        // 9-bit mantissas without implicit 1, 5-bit shared exponent with bias 15
+        const scale = 2 ** ((packed >>> 27) - 15 - 9);
+        out[i * 4] = (packed & 0x1ff) * scale;
+        out[i * 4 + 1] = ((packed >>> 9) & 0x1ff) * scale;
+        out[i * 4 + 2] = ((packed >>> 18) & 0x1ff) * scale;
+        out[i * 4 + 3] = 1;
+      }
+      return out;
+    }
+
+    default:
+      throw new Error(`Format ${format} is not an uncompressed HDR format.`);
+  }
+}
+
+function linearToSRGB(value: number): number {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+}
+
+/**
+ * Tone-map RGBA floats to RGBA8, for previews
+ *
+ * @param pixels Four floats per pixel, see decodeHDRToFloat32()
+ * @param options Exposure, tone mapping operator and output encoding
+ */
+export function toneMapToRGBA8(pixels: Float32Array, options: ToneMapOptions = {}): Uint8Array {
+  const { exposure = 0, toneMapping = ToneMapping.ACESFilmic, srgb = true } = options;
+  const scale = 2 ** exposure;
+  const map = (value: number): number => {
+    const x = Math.max(0, value * scale);
+    switch (toneMapping) {
+      case ToneMapping.Reinhard:
+        return x / (1 + x);
+      case ToneMapping.ACESFilmic:
+        return (x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14);
+      default:
+        return x;
+    }
+  };
+
+  const out = new Uint8Array(pixels.length);
+  for (let i = 0; i < pixels.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      let value = Math.min(1, map(pixels[i + c]));
+      if (srgb) {
+        value = linearToSRGB(value);
+      }
+      out[i + c] = Math.round(value * 255);
+    }
+    out[i + 3] = Math.round(Math.min(1, Math.max(0, pixels[i + 3])) * 255);
+  }
+  return out;
+}
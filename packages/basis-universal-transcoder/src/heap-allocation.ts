@@ -0,0 +1,70 @@
+import { BasisModuleFuncs } from './index';
+import { TranscodeError, TranscodeErrorCode } from './errors';
+
+/**
+ * A block of memory in the WASM heap, owned by the caller.
+ *
+ * Used as a zero-copy target of KTX2Transcoder.transcodeImageLevelInto(). Unlike the
+ * transcoder's own output memory it is not reused by later calls, it lives until free().
+ */
+export class WasmHeapAllocation {
+  private ptr: number;
+  private readonly size: number;
+
+  constructor(private readonly funcs: BasisModuleFuncs, byteLength: number) {
+    this.ptr = byteLength > 0 ? funcs.malloc(byteLength) : 0;
+    if (!this.ptr) {
+      throw new TranscodeError(TranscodeErrorCode.AllocationFailed,
+        `Failed to allocate ${byteLength} bytes in the WASM heap.`);
+    }
+    this.size = byteLength;
+  }
+
+  /** Address of the allocation in the WASM heap */
+  get byteOffset(): number {
+    this.checkFreed();
+    return this.ptr;
+  }
+
+  get byteLength(): number {
+    return this.size;
+  }
+
+  /**
+   * View of the allocation.
+   *
+   * ⚠️ IMPORTANT: The view is detached when the WASM heap grows. Take a new view after
+   * any transcoder call instead of keeping one around.
+   */
+  get data(): Uint8Array {
+    this.checkFreed();
+    return this.funcs.heap.subarray(this.ptr, this.ptr + this.size);
+  }
+
+  /** Whether the allocation lives in the heap of the given module */
+  belongsTo(funcs: BasisModuleFuncs): boolean {
+    return this.funcs === funcs;
+  }
+
+  /**
+   * Release the memory
+   */
+  free(): void {
+    if (!this.ptr) {
+      return;
+    }
+    if (!this.funcs.disposed) {
+      this.funcs.free(this.ptr);
+    }
+    this.ptr = 0;
+  }
+
+  private checkFreed(): void {
+    if (!this.ptr) {
+      throw new Error('WASM heap allocation already freed.');
+    }
+    if (this.funcs.disposed) {
+      throw new Error('The BasisUniversal instance of this WASM heap allocation has been disposed.');
+    }
+  }
+}
@@ -5,13 +5,38 @@
  * texture transcoder compiled to WebAssembly.
  */
 
-import { EmscriptenModule, TranscoderTextureFormat } from './types.js';
+import { BasisTextureFormat, EmscriptenModule, TranscoderTextureFormat } from './types.js';
 import { KTX2Transcoder } from './transcoder.js';
+import { AnimatedKTX2 } from './animated-ktx2.js';
+import { WasmHeapAllocation } from './heap-allocation.js';
+import { BasisFileTranscoder } from './basis-transcoder.js';
+import { isBasisFileData, isKTX2FileData } from './utils.js';
 import basis_capi_transcoder_js from '../../../build/basis_capi_transcoder_patched.js';
 
 // Re-export types and utilities
 export * from './types.js';
 export * from './transcoder.js';
+export * from './animated-ktx2.js';
+export * from './heap-allocation.js';
+export * from './errors.js';
+export * from './decode-flags.js';
+export * from './channels.js';
+export * from './hdr.js';
+export * from './rgba-decoder.js';
+export * from './texture-writers.js';
+export * from './gltf.js';
+export * from './ktx2-header.js';
+export * from './ktx2-container.js';
+export * from './progressive-loader.js';
+export * from './basis-transcoder.js';
+export * from './key-value-data.js';
+export * from './data-format-descriptor.js';
+export * from './worker-endpoint.js';
+export * from './worker.js';
+export * from './worker-pool.js';
+export * from './webgpu.js';
+export * from './webgl.js';
+export * from './format-selection.js';
 export * from './utils.js';
 
 const BasisFuncProtos = {
@@ -19,6 +44,8 @@ const BasisFuncProtos = {
   basis_transcoder_format_has_alpha: (_format: TranscoderTextureFormat) => false,
   basis_transcoder_format_is_hdr: (_format: TranscoderTextureFormat) => false,
   basis_transcoder_format_is_uncompressed: (_format: TranscoderTextureFormat) => false,
+  basis_is_format_supported: (_format: TranscoderTextureFormat, _basisTexFormat: BasisTextureFormat) => false,
+  basis_tex_format_is_hdr: (_basisTexFormat: BasisTextureFormat) => 0,
   basis_get_bytes_per_block_or_pixel: (_format: TranscoderTextureFormat) => 0,
   basis_compute_transcoded_image_size_in_bytes: (_format: TranscoderTextureFormat, _width: number, _height: number) => 0,
   ktx2_transcoder_new: () => 0,
@@ -49,6 +76,42 @@ const BasisFuncProtos = {
     _channel1: number,
     _statePtr: number,
   ) => false,
+  ktx2_transcoder_state_new: () => 0,
+  ktx2_transcoder_state_delete: (_statePtr: number) => { },
+  ktx2_transcoder_state_clear: (_statePtr: number) => { },
+  basisu_transcoder_new: () => 0,
+  basisu_transcoder_delete: (_transcoderPtr: number) => { },
+  basisu_transcoder_validate_header: (_transcoderPtr: number, _dataPtr: number, _dataSize: number) => false,
+  basisu_transcoder_get_texture_type: (_transcoderPtr: number, _dataPtr: number, _dataSize: number) => 0,
+  basisu_transcoder_get_basis_tex_format: (_transcoderPtr: number, _dataPtr: number, _dataSize: number) => 0,
+  basisu_transcoder_get_total_images: (_transcoderPtr: number, _dataPtr: number, _dataSize: number) => 0,
+  basisu_transcoder_get_total_image_levels: (_transcoderPtr: number, _dataPtr: number, _dataSize: number, _imageIndex: number) => 0,
+  basisu_transcoder_get_image_level_info: (
+    _transcoderPtr: number,
+    _dataPtr: number,
+    _dataSize: number,
+    _levelInfoPtr: number,
+    _imageIndex: number,
+    _levelIndex: number
+  ) => false,
+  basisu_transcoder_start_transcoding: (_transcoderPtr: number, _dataPtr: number, _dataSize: number) => false,
+  basisu_transcoder_stop_transcoding: (_transcoderPtr: number) => false,
+  basisu_transcoder_transcode_image_level: (
+    _transcoderPtr: number,
+    _dataPtr: number,
+    _dataSize: number,
+    _imageIndex: number,
+    _levelIndex: number,
+    _outputBlocksPtr: number,
+    _outputBlocksBufSizeInBlocksOrPixels: number,
+    _fmt: TranscoderTextureFormat,
+    _decodeFlags: number,
+    _outputRowPitchInBlocksOrPixels: number,
+    _outputRowsInPixels: number,
+    _channel0: number,
+    _channel1: number,
+    _statePtr: number,
+  ) => false,
 } as const;
 
 interface MemoryFuncs {
@@ -57,7 +120,12 @@ interface MemoryFuncs {
   readonly heap: Uint8Array;
 }
 
-export type BasisModuleFuncs = typeof BasisFuncProtos & MemoryFuncs;
+interface ModuleState {
+  /** true once the owning BasisUniversal has been disposed; the module must not be called anymore */
+  readonly disposed: boolean;
+}
+
+export type BasisModuleFuncs = typeof BasisFuncProtos & MemoryFuncs & ModuleState;
 
 function getProtoReturnType(v: false): 'boolean'
 function getProtoReturnType(v: 0): 'number'
@@ -73,7 +141,14 @@ function getProtoReturnType(v: any) {
   throw new Error(`Unknown return type: ${v}`);
 }
 
-function getAllBasisFuncs(module: EmscriptenModule): BasisModuleFuncs {
+/** Module reference shared by the memory functions, dropped on dispose */
+interface ModuleRef {
+  disposed: boolean;
+  module: EmscriptenModule | null;
+}
+
+function getAllBasisFuncs(ref: ModuleRef): BasisModuleFuncs {
+  const module = ref.module!;
   const funcs = Object.entries(BasisFuncProtos).reduce((acc, [key, func]) => {
     const returnValue = (func as any)();
     const returnType = getProtoReturnType(returnValue);
@@ -81,50 +156,208 @@ function getAllBasisFuncs(module: EmscriptenModule): BasisModuleFuncs {
     return acc;
   }, {} as any);
 
-  const memoryFuncs: MemoryFuncs = {
-    malloc: (size) => module._malloc(size),
-    free: (ptr) => module._free(ptr),
+  const getModule = () => {
+    if (!ref.module) {
+      throw new Error('The BasisUniversal instance has been disposed.');
+    }
+    return ref.module;
+  };
+  const memoryFuncs: MemoryFuncs & ModuleState = {
+    malloc: (size) => getModule()._malloc(size),
+    free: (ptr) => getModule()._free(ptr),
     get heap() {
-      return module.HEAPU8;
+      return getModule().HEAPU8;
+    },
+    get disposed() {
+      return ref.disposed;
     }
   }
 
   return Object.assign(memoryFuncs, funcs);
 }
 
+/**
+ * Drop the cwrap'd functions, which hold the module. Transcoders keep the funcs object itself.
+ */
+function releaseBasisFuncs(funcs: BasisModuleFuncs): void {
+  for (const key of Object.keys(BasisFuncProtos)) {
+    delete (funcs as unknown as Partial<Record<string, unknown>>)[key];
+  }
+}
+
 /**
  * High-level API for quick transcoding
  */
 export class BasisUniversal {
   private static instance: BasisUniversal | null = null;
   readonly funcs: BasisModuleFuncs;
+  private readonly state: ModuleRef;
 
   private constructor(module: EmscriptenModule) {
-    this.funcs = getAllBasisFuncs(module);
+    this.state = { disposed: false, module };
+    this.funcs = getAllBasisFuncs(this.state);
     this.funcs.basisu_transcoder_init();
   }
 
   /**
-   * Get or create a BasisUniversal instance with custom WASM loader
+   * Create an independent BasisUniversal instance with its own WASM module and heap.
+   * Unlike getInstance(), every call instantiates a new module. Call dispose() when done.
    */
-  static async getInstance(instantiateWasmAsync: InstantiateWasmAsync): Promise<BasisUniversal> {
-    if (BasisUniversal.instance) {
-      return BasisUniversal.instance;
-    }
+  static async create(instantiateWasmAsync: InstantiateWasmAsync): Promise<BasisUniversal> {
     const module = await basis_capi_transcoder_js({
       instantiateWasmAsync,
     }) as EmscriptenModule;
-    const inst = new BasisUniversal(module);
+    return new BasisUniversal(module);
+  }
+
+  /**
+   * Get or create the shared BasisUniversal instance with custom WASM loader.
+   *
+   * The loader is only used when no shared instance exists yet,
+   * i.e. on the first call or after resetInstance() / dispose().
+   */
+  static async getInstance(instantiateWasmAsync: InstantiateWasmAsync): Promise<BasisUniversal> {
+    if (BasisUniversal.instance && !BasisUniversal.instance.disposed) {
+      return BasisUniversal.instance;
+    }
+    const inst = await BasisUniversal.create(instantiateWasmAsync);
     BasisUniversal.instance = inst;
     return inst;
   }
 
+  /**
+   * Dispose the shared instance, if any, so the next getInstance() call creates a fresh module.
+   * Use this to recover from a crashed or out-of-memory module, or to isolate tests.
+   */
+  static resetInstance(): void {
+    BasisUniversal.instance?.dispose();
+    BasisUniversal.instance = null;
+  }
+
+  /**
+   * true once dispose() has been called
+   */
+  get disposed(): boolean {
+    return this.state.disposed;
+  }
+
+  /**
+   * Release the WASM module. All transcoders created from this instance become unusable
+   * and throw on any further call except dispose().
+   *
+   * Every reference to the module and its heap is dropped, so they can be garbage-collected
+   * even while transcoders created from this instance are still referenced.
+   */
+  dispose(): void {
+    if (this.state.disposed) {
+      return;
+    }
+    this.state.disposed = true;
+    this.state.module = null;
+    releaseBasisFuncs(this.funcs);
+  }
+
+  /**
+   * Check whether this WASM build can transcode a source format into a target format.
+   *
+   * This is independent of any GPU: formats that are transcodable but not uploadable on the
+   * current device (see isFormatSupported) are still valid outputs, e.g. for writing to disk.
+   */
+  isFormatTranscodable(format: TranscoderTextureFormat, basisTexFormat: BasisTextureFormat): boolean {
+    this.checkDisposed();
+    return this.funcs.basis_is_format_supported(format, basisTexFormat);
+  }
+
+  /**
+   * All target formats this WASM build can transcode the source format into.
+   *
+   * The default build compiles out ATC, FXT1, PVRTC2 and ETC2 EAC R11/RG11 and the HDR sources,
+   * so the result depends on which WASM file was loaded (see WasmVariant).
+   *
+   * @param basisTexFormat Source format
+   * @returns The supported target formats in enum order, legacy aliases omitted
+   */
+  getSupportedFormats(basisTexFormat: BasisTextureFormat): TranscoderTextureFormat[] {
+    this.checkDisposed();
+    const formats: TranscoderTextureFormat[] = [];
+    for (let format = 0; format < TranscoderTextureFormat.cTFTotalTextureFormats; format++) {
+      if (format !== TranscoderTextureFormat.cTFBC7_ALT && this.funcs.basis_is_format_supported(format, basisTexFormat)) {
+        formats.push(format);
+      }
+    }
+    return formats;
+  }
+
+  /**
+   * Whether this WASM build can transcode HDR sources (UASTC HDR 4x4, ASTC HDR 6x6).
+   * The default build cannot, load basis_capi_transcoder_hdr.wasm for HDR.
+   */
+  get supportsHDR(): boolean {
+    return this.isFormatTranscodable(TranscoderTextureFormat.cTFRGBA_HALF, BasisTextureFormat.cUASTC_HDR_4x4);
+  }
+
+  /**
+   * Allocate caller-owned memory in the WASM heap, a zero-copy target for KTX2Transcoder.transcodeImageLevelInto()
+   *
+   * @throws TranscodeError (ALLOCATION_FAILED) if the heap cannot grow
+   */
+  allocate(byteLength: number): WasmHeapAllocation {
+    this.checkDisposed();
+    return new WasmHeapAllocation(this.funcs, byteLength);
+  }
+
   /**
    * Create a KTX2 transcoder for the given data
    */
   createKTX2Transcoder(): KTX2Transcoder {
+    this.checkDisposed();
     return new KTX2Transcoder(this.funcs);
   }
+
+  /**
+   * Create a player for KTX2 texture video
+   */
+  createAnimatedKTX2(): AnimatedKTX2 {
+    this.checkDisposed();
+    return new AnimatedKTX2(this.funcs);
+  }
+
+  /**
+   * Create a transcoder for legacy .basis files
+   */
+  createBasisFileTranscoder(): BasisFileTranscoder {
+    this.checkDisposed();
+    return new BasisFileTranscoder(this.funcs);
+  }
+
+  /**
+   * Create and initialize the matching transcoder for the given file data.
+   * The container is detected from the file's magic bytes (KTX2 identifier or .basis signature).
+   *
+   * @param data KTX2 or .basis file data
+   * @returns An initialized transcoder, or null if the data is not recognized or initialization failed
+   */
+  createTranscoderFor(data: Uint8Array): KTX2Transcoder | BasisFileTranscoder | null {
+    let transcoder: KTX2Transcoder | BasisFileTranscoder;
+    if (isKTX2FileData(data)) {
+      transcoder = this.createKTX2Transcoder();
+    } else if (isBasisFileData(data)) {
+      transcoder = this.createBasisFileTranscoder();
+    } else {
+      return null;
+    }
+    if (!transcoder.init(data)) {
+      transcoder.dispose();
+      return null;
+    }
+    return transcoder;
+  }
+
+  private checkDisposed(): void {
+    if (this.state.disposed) {
+      throw new Error('BasisUniversal instance already disposed.');
+    }
+  }
 }
 
 export type InstantiateWasmAsync = (imports: WebAssembly.Imports) => Promise<WebAssembly.WebAssemblyInstantiatedSource>;
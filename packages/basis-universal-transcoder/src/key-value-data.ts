@@ -0,0 +1,135 @@
+/**
+ * KTX2 key/value data parsing
+ *
+ * The key/value data block is a sequence of entries:
+ *   uint32 keyAndValueByteLength
+ *   uint8  keyAndValue[keyAndValueByteLength]   (NUL-terminated UTF-8 key followed by the value)
+ *   uint8  padding[align(4) - keyAndValueByteLength]
+ */
+
+/**
+ * Orientation flags parsed from the `KTXorientation` value.
+ * A cleared bit means the KTX2 default orientation for that axis ("rdi").
+ */
+export enum KTX2OrientationFlags {
+  None = 0,
+  /** X axis increases to the left ('l' instead of 'r') */
+  XLeft = 1 << 0,
+  /** Y axis increases upwards ('u' instead of 'd') */
+  YUp = 1 << 1,
+  /** Z axis increases out of the screen ('o' instead of 'i') */
+  ZOut = 1 << 2,
+}
+
+/**
+ * Parsed `KTXanimData` value
+ */
+export interface KTX2AnimData {
+  /** Duration of each frame, in units of timescale */
+  duration: number;
+  /** Number of time units per second */
+  timescale: number;
+  /** Number of times to loop the animation, 0 means loop forever */
+  loopCount: number;
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Key/value data of a KTX2 file.
+ *
+ * All values are owned copies and stay valid independently of the WASM heap.
+ */
+export class KTX2KeyValueData extends Map<string, Uint8Array> {
+  /**
+   * Get a value as a string, with the trailing NUL terminator removed
+   */
+  getString(key: string): string | null {
+    const value = this.get(key);
+    if (!value) {
+      return null;
+    }
+    const end = value.indexOf(0);
+    return textDecoder.decode(end >= 0 ? value.subarray(0, end) : value);
+  }
+
+  /**
+   * `KTXorientation` parsed to flags, or null if the key is absent or malformed
+   */
+  get orientation(): KTX2OrientationFlags | null {
+    const value = this.getString('KTXorientation');
+    if (!value || !/^[rl]([du]([oi])?)?$/.test(value)) {
+      return null;
+    }
+    let flags = KTX2OrientationFlags.None;
+    if (value[0] === 'l') {
+      flags |= KTX2OrientationFlags.XLeft;
+    }
+    if (value[1] === 'u') {
+      flags |= KTX2OrientationFlags.YUp;
+    }
+    if (value[2] === 'o') {
+      flags |= KTX2OrientationFlags.ZOut;
+    }
+    return flags;
+  }
+
+  /**
+   * `KTXwriter` value, or null if absent
+   */
+  get writer(): string | null {
+    return this.getString('KTXwriter');
+  }
+
+  /**
+   * `KTXswizzle` value (for example "rgba" or "rrr1"), or null if absent
+   */
+  get swizzle(): string | null {
+    return this.getString('KTXswizzle');
+  }
+
+  /**
+   * `KTXanimData` value, or null if absent or malformed
+   */
+  get animData(): KTX2AnimData | null {
+    const value = this.get('KTXanimData');
+    if (!value || value.length < 12) {
+      return null;
+    }
+    const view = new DataView(value.buffer, value.byteOffset, value.byteLength);
+    return {
+      duration: view.getUint32(0, true),
+      timescale: view.getUint32(4, true),
+      loopCount: view.getUint32(8, true),
+    };
+  }
+}
+
+/**
+ * Parse a KTX2 key/value data block.
+ *
+ * Entries that run past the end of the block are ignored.
+ *
+ * @param kvd The key/value data block (not the whole file)
+ */
+export function parseKTX2KeyValueData(kvd: Uint8Array): KTX2KeyValueData {
+  const result = new KTX2KeyValueData();
+  const view = new DataView(kvd.buffer, kvd.byteOffset, kvd.byteLength);
+  let offset = 0;
+  while (offset + 4 <= kvd.length) {
+    const length = view.getUint32(offset, true);
+    const start = offset + 4;
+    const end = start + length;
+    if (end > kvd.length) {
+      break;
+    }
+    const entry = kvd.subarray(start, end);
+    const keyEnd = entry.indexOf(0);
+    if (keyEnd > 0) {
+      const key = textDecoder.decode(entry.subarray(0, keyEnd));
+      result.set(key, entry.slice(keyEnd + 1));
+    }
+    offset = (end + 3) & ~3;
+  }
+  return result;
+}
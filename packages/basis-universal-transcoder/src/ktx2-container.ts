@@ -0,0 +1,161 @@
+import { getUint64, KTX2_HEADER_BYTE_LENGTH, KTX2HeaderInfo, parseKTX2Header } from './ktx2-header';
+import { KTX2DataFormatDescriptor, parseKTX2DataFormatDescriptor } from './data-format-descriptor';
+import { KTX2KeyValueData, parseKTX2KeyValueData } from './key-value-data';
+
+/**
+ * KTX2 container layout parsing, without the WASM module
+ *
+ * File layout:
+ *   header (80 bytes)
+ *   level index: levelCount entries of { uint64 byteOffset, uint64 byteLength, uint64 uncompressedByteLength }
+ *   data format descriptor, key/value data, supercompression global data
+ *   mip level data, usually stored smallest level first
+ */
+
+export const KTX2_LEVEL_INDEX_ENTRY_BYTE_LENGTH = 24;
+
+export enum KTX2ContainerSection {
+  Header = 0,
+  LevelIndex = 1,
+  DataFormatDescriptor = 2,
+  KeyValueData = 3,
+  SupercompressionGlobalData = 4,
+  LevelData = 5,
+}
+
+/**
+ * A byte range of a KTX2 file
+ */
+export interface KTX2ByteRange {
+  section: KTX2ContainerSection;
+  /** Mip level, only set for KTX2ContainerSection.LevelData */
+  level?: number;
+  byteOffset: number;
+  byteLength: number;
+}
+
+/**
+ * Entry of the KTX2 level index
+ */
+export interface KTX2LevelIndexEntry {
+  /** Byte offset of the level data from the start of the file */
+  byteOffset: number;
+  /** Byte length of the (possibly supercompressed) level data */
+  byteLength: number;
+  /** Byte length of the level data after inflating supercompression, 0 for BasisLZ */
+  uncompressedByteLength: number;
+}
+
+export interface KTX2Container {
+  /** The header, or null if the data is shorter than a header */
+  header: KTX2HeaderInfo | null;
+  /** Level index entries, level 0 (largest) first. Only the entries present in the data. */
+  levels: KTX2LevelIndexEntry[];
+  /** The decoded DFD, or null if it is missing or has no basic descriptor block */
+  dataFormatDescriptor: KTX2DataFormatDescriptor | null;
+  /** The key/value data, empty if there is none or it is missing */
+  keyValueData: KTX2KeyValueData;
+  /** Byte length of the supercompression global data (BasisLZ codebooks), 0 if there is none */
+  sgdByteLength: number;
+  /** Sections that extend past the end of the data. Empty for a complete file. */
+  missing: KTX2ByteRange[];
+  /** true if every section, including all level data, is present */
+  isComplete: boolean;
+}
+
+/**
+ * Parse the layout of a KTX2 file
+ *
+ * Truncated input is not an error: everything that is present gets parsed and the
+ * sections that run past the end of the data are listed in `missing`, so a partial
+ * download can be inspected and the remaining ranges fetched.
+ * The identifier is not checked, see `header.hasValidIdentifier`.
+ *
+ * @param bytes The KTX2 file, or a prefix of it
+ */
+export function parseKTX2Container(bytes: Uint8Array | DataView): KTX2Container {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const missing: KTX2ByteRange[] = [];
+  const isPresent = (range: KTX2ByteRange) => {
+    if (range.byteOffset + range.byteLength <= data.length) {
+      return true;
+    }
+    missing.push(range);
+    return false;
+  };
+
+  const container: KTX2Container = {
+    header: null,
+    levels: [],
+    dataFormatDescriptor: null,
+    keyValueData: new KTX2KeyValueData(),
+    sgdByteLength: 0,
+    missing,
+    isComplete: false,
+  };
+
+  const header = parseKTX2Header(data);
+  if (!header) {
+    missing.push({ section: KTX2ContainerSection.Header, byteOffset: 0, byteLength: KTX2_HEADER_BYTE_LENGTH });
+    return container;
+  }
+  container.header = header;
+  container.sgdByteLength = header.sgdByteLength;
+
+  // Level index
+  const levelCount = Math.max(1, header.levels);
+  for (let level = 0; level < levelCount; level++) {
+    const offset = KTX2_HEADER_BYTE_LENGTH + level * KTX2_LEVEL_INDEX_ENTRY_BYTE_LENGTH;
+    if (offset + KTX2_LEVEL_INDEX_ENTRY_BYTE_LENGTH > data.length) {
+      break;
+    }
+    container.levels.push({
+      byteOffset: getUint64(view, offset),
+      byteLength: getUint64(view, offset + 8),
+      uncompressedByteLength: getUint64(view, offset + 16),
+    });
+  }
+  isPresent({
+    section: KTX2ContainerSection.LevelIndex,
+    byteOffset: KTX2_HEADER_BYTE_LENGTH,
+    byteLength: levelCount * KTX2_LEVEL_INDEX_ENTRY_BYTE_LENGTH,
+  });
+
+  // Data format descriptor
+  const dfd = {
+    section: KTX2ContainerSection.DataFormatDescriptor,
+    byteOffset: header.dfdByteOffset,
+    byteLength: header.dfdByteLength,
+  };
+  if (dfd.byteLength > 0 && isPresent(dfd)) {
+    container.dataFormatDescriptor = parseKTX2DataFormatDescriptor(data.subarray(dfd.byteOffset, dfd.byteOffset + dfd.byteLength));
+  }
+
+  // Key/value data
+  const kvd = {
+    section: KTX2ContainerSection.KeyValueData,
+    byteOffset: header.kvdByteOffset,
+    byteLength: header.kvdByteLength,
+  };
+  if (kvd.byteLength > 0 && isPresent(kvd)) {
+    container.keyValueData = parseKTX2KeyValueData(data.subarray(kvd.byteOffset, kvd.byteOffset + kvd.byteLength));
+  }
+
+  // Supercompression global data
+  if (header.sgdByteLength > 0) {
+    isPresent({
+      section: KTX2ContainerSection.SupercompressionGlobalData,
+      byteOffset: header.sgdByteOffset,
+      byteLength: header.sgdByteLength,
+    });
+  }
+
+  // Level data, only known for the levels whose index entry was read
+  container.levels.forEach((entry, level) => {
+    isPresent({ section: KTX2ContainerSection.LevelData, level, byteOffset: entry.byteOffset, byteLength: entry.byteLength });
+  });
+
+  container.isComplete = missing.length === 0;
+  return container;
+}
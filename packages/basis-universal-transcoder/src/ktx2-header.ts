@@ -0,0 +1,108 @@
+import { isKTX2FileData } from './utils';
+
+/**
+ * KTX2 header parsing
+ *
+ * The header is the first 80 bytes of a KTX2 file, all fields little endian:
+ *   uint8  identifier[12]
+ *   uint32 vkFormat, typeSize, pixelWidth, pixelHeight, pixelDepth,
+ *          layerCount, faceCount, levelCount, supercompressionScheme
+ *   uint32 dfdByteOffset, dfdByteLength, kvdByteOffset, kvdByteLength
+ *   uint64 sgdByteOffset, sgdByteLength
+ */
+
+export const KTX2_HEADER_BYTE_LENGTH = 80;
+
+export enum KTX2SupercompressionScheme {
+  None = 0,
+  BasisLZ = 1,
+  Zstd = 2,
+  ZLIB = 3,
+}
+
+/**
+ * Snapshot of a KTX2 header. A frozen plain object, safe to keep and to serialize.
+ */
+export interface KTX2HeaderInfo {
+  /** Whether the file starts with the KTX2 identifier */
+  readonly hasValidIdentifier: boolean;
+  readonly vkFormat: number;
+  readonly typeSize: number;
+  /** Width in texels */
+  readonly width: number;
+  /** Height in texels, 0 for 1D textures */
+  readonly height: number;
+  /** Depth in texels, 0 unless the texture is 3D */
+  readonly depth: number;
+  /** Number of array layers, 0 if the texture is not an array */
+  readonly layers: number;
+  /** 1, or 6 for cubemaps */
+  readonly faces: number;
+  /** Number of mip levels, 0 means the mip chain should be generated at load time */
+  readonly levels: number;
+  readonly supercompressionScheme: KTX2SupercompressionScheme;
+  readonly dfdByteOffset: number;
+  readonly dfdByteLength: number;
+  readonly kvdByteOffset: number;
+  readonly kvdByteLength: number;
+  /** Byte offset of the supercompression global data, 0 if there is none */
+  readonly sgdByteOffset: number;
+  /** Byte length of the supercompression global data, 0 if there is none */
+  readonly sgdByteLength: number;
+  readonly isCubemap: boolean;
+  readonly isArray: boolean;
+  readonly is3D: boolean;
+  readonly hasMipmaps: boolean;
+}
+
+/**
+ * Read a little-endian uint64 as a number. Exact up to 2^53, which covers any file that fits in memory.
+ */
+export function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * Parse the KTX2 header at the start of the data
+ *
+ * The identifier is reported through hasValidIdentifier rather than rejected,
+ * so a damaged file can still be inspected.
+ *
+ * @param data KTX2 file data, at least the first 80 bytes
+ * @returns The header, or null if the data is shorter than a header
+ */
+export function parseKTX2Header(data: Uint8Array): KTX2HeaderInfo | null {
+  if (data.length < KTX2_HEADER_BYTE_LENGTH) {
+    return null;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, KTX2_HEADER_BYTE_LENGTH);
+  const u32 = (index: number) => view.getUint32(12 + index * 4, true);
+
+  const depth = u32(4);
+  const layers = u32(5);
+  const faces = u32(6);
+  const levels = u32(7);
+
+  return Object.freeze({
+    hasValidIdentifier: isKTX2FileData(data),
+    vkFormat: u32(0),
+    typeSize: u32(1),
+    width: u32(2),
+    height: u32(3),
+    depth,
+    layers,
+    faces,
+    levels,
+    supercompressionScheme: u32(8) as KTX2SupercompressionScheme,
+    dfdByteOffset: u32(9),
+    dfdByteLength: u32(10),
+    kvdByteOffset: u32(11),
+    kvdByteLength: u32(12),
+    sgdByteOffset: getUint64(view, 64),
+    sgdByteLength: getUint64(view, 72),
+    isCubemap: faces === 6,
+    isArray: layers > 0,
+    is3D: depth > 0,
+    hasMipmaps: levels > 1,
+  });
+}
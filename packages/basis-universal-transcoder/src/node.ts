@@ -0,0 +1,77 @@
+/**
+ * Node.js entry point (`@h00w/basis-universal-transcoder/node`)
+ *
+ * Re-exports the whole package and adds a default WASM loader that reads the
+ * bundled basis_capi_transcoder.wasm from the filesystem.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { BasisUniversal, getWasmFileName, GLTFUriResolver, InstantiateWasmAsync, WasmVariant } from './index.js';
+
+export * from './index.js';
+
+/**
+ * Path of a bundled WASM file
+ *
+ * @param variant Build variant, 'hdr' adds HDR source support, 'full' also every target format
+ */
+export function getBundledWasmPath(variant: WasmVariant = 'default'): string {
+  // The file name is computed so bundlers leave the URL to be resolved at runtime, next to the built entry
+  return fileURLToPath(new URL(getWasmFileName(variant), import.meta.url));
+}
+
+/**
+ * Create an InstantiateWasmAsync that reads the WASM file from the filesystem
+ *
+ * @param wasmPath Path of the WASM file, defaults to the one bundled with the package
+ */
+export function createNodeWasmInstantiator(wasmPath: string = getBundledWasmPath()): InstantiateWasmAsync {
+  return async (imports) => {
+    const buffer = new Uint8Array(await readFile(wasmPath));
+    return WebAssembly.instantiate(buffer, imports);
+  };
+}
+
+const instancesByPath = new Map<string, Promise<BasisUniversal>>();
+
+/**
+ * Get or create a BasisUniversal instance for a WASM file
+ *
+ * Without a path this is the shared instance of BasisUniversal.getInstance(), using the bundled default build.
+ * With a path each file gets its own instance from BasisUniversal.create(), reused by later calls with the same
+ * path until it is disposed, so e.g. loadNode(getBundledWasmPath('full')) loads the full build even when
+ * another instance already exists.
+ *
+ * @param wasmPath Path of the WASM file, defaults to the one bundled with the package
+ */
+export async function loadNode(wasmPath?: string): Promise<BasisUniversal> {
+  if (wasmPath === undefined) {
+    return BasisUniversal.getInstance(createNodeWasmInstantiator());
+  }
+
+  const key = resolve(wasmPath);
+  const cached = await instancesByPath.get(key)?.catch(() => null);
+  if (cached && !cached.disposed) {
+    return cached;
+  }
+  const created = BasisUniversal.create(createNodeWasmInstantiator(key));
+  instancesByPath.set(key, created);
+  created.catch(() => {
+    if (instancesByPath.get(key) === created) {
+      instancesByPath.delete(key);
+    }
+  });
+  return created;
+}
+
+/**
+ * Create a GLTFUriResolver that reads the external files of a glTF asset from the filesystem
+ *
+ * @param gltfPath Path of the .gltf file, URIs are resolved relative to its directory
+ */
+export function createGLTFFileResolver(gltfPath: string): GLTFUriResolver {
+  const baseDir = dirname(gltfPath);
+  return async (uri) => new Uint8Array(await readFile(resolve(baseDir, decodeURIComponent(uri))));
+}
@@ -0,0 +1,203 @@
+import { KTX2Transcoder } from './transcoder';
+import { DecodeFlags, TranscodedImage, TranscoderTextureFormat } from './types';
+import { TranscodeError, TranscodeErrorCode } from './errors';
+import { KTX2_HEADER_BYTE_LENGTH, KTX2HeaderInfo, parseKTX2Header } from './ktx2-header';
+import {
+  KTX2_LEVEL_INDEX_ENTRY_BYTE_LENGTH,
+  KTX2ByteRange,
+  KTX2Container,
+  KTX2ContainerSection,
+  parseKTX2Container
+} from './ktx2-container';
+
+/**
+ * Progressive mip streaming
+ *
+ * Only the header, level index, DFD, key/value data and supercompression global data
+ * are needed up front. Each mip level is then fetched on its own and transcoded as soon
+ * as it arrives, smallest first, so a low resolution preview is available early.
+ */
+
+/**
+ * Fetch a byte range of the file. Must resolve with exactly byteLength bytes.
+ */
+export type KTX2RangeFetcher = (byteOffset: number, byteLength: number) => Promise<Uint8Array>;
+
+export interface ProgressiveKTX2Level {
+  level: number;
+  width: number;
+  height: number;
+  /** Transcoded images indexed as [layer][face], each holding an owned copy of its data */
+  images: TranscodedImage[][];
+}
+
+export interface ProgressiveKTX2LoadOptions {
+  /** Decode flags passed to every transcodeImageLevel() call */
+  decodeFlags?: DecodeFlags;
+}
+
+function getRangeEnd(range: KTX2ByteRange): number {
+  return range.byteOffset + range.byteLength;
+}
+
+/**
+ * Byte ranges of the file needed before any level can be transcoded:
+ * header with level index, DFD, key/value data and, for BasisLZ, the global data.
+ */
+export function getKTX2MetadataByteRanges(header: KTX2HeaderInfo): KTX2ByteRange[] {
+  const ranges: KTX2ByteRange[] = [
+    { section: KTX2ContainerSection.Header, byteOffset: 0, byteLength: KTX2_HEADER_BYTE_LENGTH },
+    { section: KTX2ContainerSection.LevelIndex, byteOffset: KTX2_HEADER_BYTE_LENGTH, byteLength: Math.max(1, header.levels) * KTX2_LEVEL_INDEX_ENTRY_BYTE_LENGTH },
+    { section: KTX2ContainerSection.DataFormatDescriptor, byteOffset: header.dfdByteOffset, byteLength: header.dfdByteLength },
+    { section: KTX2ContainerSection.KeyValueData, byteOffset: header.kvdByteOffset, byteLength: header.kvdByteLength },
+    { section: KTX2ContainerSection.SupercompressionGlobalData, byteOffset: header.sgdByteOffset, byteLength: header.sgdByteLength },
+  ];
+  return ranges.filter(range => range.byteLength > 0);
+}
+
+/**
+ * Byte ranges of the file needed to transcode one mip level: the metadata ranges plus the level data.
+ *
+ * @returns The ranges, or null if the header or the level index entry of the level is not in the container
+ */
+export function getKTX2LevelByteRanges(container: KTX2Container, level: number): KTX2ByteRange[] | null {
+  const entry = container.levels[level];
+  if (!container.header || !entry) {
+    return null;
+  }
+  return [
+    ...getKTX2MetadataByteRanges(container.header),
+    { section: KTX2ContainerSection.LevelData, level, byteOffset: entry.byteOffset, byteLength: entry.byteLength },
+  ];
+}
+
+/**
+ * Range fetcher over data that is already in memory
+ */
+export function createMemoryRangeFetcher(data: Uint8Array): KTX2RangeFetcher {
+  return async (byteOffset, byteLength) => data.subarray(byteOffset, byteOffset + byteLength);
+}
+
+/**
+ * Range fetcher using HTTP Range requests.
+ * Servers that ignore the Range header still work, but then every request downloads the whole file.
+ */
+export function createHTTPRangeFetcher(url: string, init: RequestInit = {}): KTX2RangeFetcher {
+  return async (byteOffset, byteLength) => {
+    const headers = new Headers(init.headers);
+    headers.set('Range', `bytes=${byteOffset}-${byteOffset + byteLength - 1}`);
+    const response = await fetch(url, { ...init, headers });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+    const data = new Uint8Array(await response.arrayBuffer());
+    // 200 means the whole file was sent
+    return response.status === 206 ? data : data.subarray(byteOffset, byteOffset + byteLength);
+  };
+}
+
+/**
+ * Streams the mip levels of a KTX2 file, smallest first
+ *
+ * The transcoder is initialized once with the metadata and a zero-filled file, each level is
+ * copied into its WASM heap copy of the file with writeFileBytes() when it arrives.
+ * The transcoder must not be used for anything else until load() finishes; the loader does not dispose it.
+ *
+ * ```typescript
+ * const loader = new ProgressiveKTX2Loader(transcoder, createHTTPRangeFetcher(url));
+ * for await (const level of loader.load(TranscoderTextureFormat.cTFBC7_RGBA)) {
+ *   upload(level); // level.level counts down to 0
+ * }
+ * ```
+ */
+export class ProgressiveKTX2Loader {
+  private container: KTX2Container | null = null;
+  private metadata: Uint8Array | null = null;
+
+  constructor(
+    private readonly transcoder: KTX2Transcoder,
+    private readonly fetchRange: KTX2RangeFetcher
+  ) { }
+
+  /**
+   * Fetch the header, level index and metadata. Called by load() if needed.
+   *
+   * @throws TranscodeError (INVALID_HEADER) if the file is not a KTX2 file
+   */
+  async loadContainer(): Promise<KTX2Container> {
+    if (this.container) {
+      return this.container;
+    }
+
+    const headerBytes = await this.fetchChecked(0, KTX2_HEADER_BYTE_LENGTH);
+    const header = parseKTX2Header(headerBytes);
+    if (!header || !header.hasValidIdentifier) {
+      throw new TranscodeError(TranscodeErrorCode.InvalidHeader, 'The data is not a KTX2 file or its header is truncated.');
+    }
+
+    // The metadata sections follow the header, fetch them in one request
+    const metadataEnd = Math.max(...getKTX2MetadataByteRanges(header).map(getRangeEnd));
+    const prefix = new Uint8Array(metadataEnd);
+    prefix.set(headerBytes);
+    if (metadataEnd > KTX2_HEADER_BYTE_LENGTH) {
+      prefix.set(await this.fetchChecked(KTX2_HEADER_BYTE_LENGTH, metadataEnd - KTX2_HEADER_BYTE_LENGTH), KTX2_HEADER_BYTE_LENGTH);
+    }
+
+    const container = parseKTX2Container(prefix);
+    this.container = container;
+    this.metadata = prefix;
+    return container;
+  }
+
+  /**
+   * Fetch and transcode every mip level, smallest first
+   *
+   * @param format Target format
+   * @param options Load options
+   * @throws TranscodeError if the file is invalid or a level fails to transcode
+   */
+  async *load(format: TranscoderTextureFormat, options: ProgressiveKTX2LoadOptions = {}): AsyncGenerator<ProgressiveKTX2Level> {
+    const container = await this.loadContainer();
+    const metadata = this.metadata!;
+    const { decodeFlags } = options;
+
+    // The metadata never changes, so the transcoder is initialized once and the file copied to the WASM heap once
+    const fileLength = Math.max(metadata.length, ...container.levels.map(entry => entry.byteOffset + entry.byteLength));
+    const fileData = new Uint8Array(fileLength);
+    fileData.set(metadata);
+    const transcoder = this.transcoder;
+    transcoder.initOrThrow(fileData);
+    transcoder.startTranscodingOrThrow();
+    const header = transcoder.getHeaderInfo();
+    const layerCount = Math.max(1, header.layers);
+
+    for (let level = container.levels.length - 1; level >= 0; level--) {
+      const { byteOffset, byteLength } = container.levels[level];
+      transcoder.writeFileBytes(byteOffset, await this.fetchChecked(byteOffset, byteLength));
+
+      const images: TranscodedImage[][] = [];
+      let width = 0;
+      let height = 0;
+      for (let layer = 0; layer < layerCount; layer++) {
+        const faces: TranscodedImage[] = [];
+        for (let face = 0; face < header.faces; face++) {
+          const result = transcoder.transcodeImageLevelOrThrow({ format, level, layer, face, decodeFlags });
+          width = result.width;
+          height = result.height;
+          faces.push({ level, layer, face, width, height, data: result.data.slice() });
+        }
+        images.push(faces);
+      }
+
+      yield { level, width, height, images };
+    }
+  }
+
+  private async fetchChecked(byteOffset: number, byteLength: number): Promise<Uint8Array> {
+    const data = await this.fetchRange(byteOffset, byteLength);
+    if (data.length < byteLength) {
+      throw new Error(`Range fetch returned ${data.length} bytes at offset ${byteOffset}, ${byteLength} expected.`);
+    }
+    return data.length === byteLength ? data : data.subarray(0, byteLength);
+  }
+}
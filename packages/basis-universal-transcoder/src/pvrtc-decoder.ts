@@ -0,0 +1,145 @@
+/**
+ * PVRTC 4bpp decoding, used by decodeToRGBA()
+ *
+ * PVRTC stores two low resolution images, one color of each per 4x4 block, which are
+ * bilinearly upscaled and blended per texel by 2-bit modulation values. Decoding a texel
+ * therefore needs the four blocks around it, so whole images are decoded at once.
+ * Addressing wraps at the image edges.
+ */
+
+const modulationWeights = [0, 3, 5, 8];
+const punchThroughWeights = [0, 4, 4, 8];
+
+/**
+ * Block index in PVRTC1's twiddled (Morton) order, y taking the low bit.
+ * When the block grid is not square the remaining high bits of the longer axis are appended.
+ */
+function twiddle(blocksX: number, blocksY: number, x: number, y: number): number {
+  const minDimension = Math.min(blocksX, blocksY);
+  let twiddled = 0;
+  let shift = 0;
+  for (let bit = 1; bit < minDimension; bit <<= 1, shift++) {
+    if (y & bit) {
+      twiddled |= 1 << (2 * shift);
+    }
+    if (x & bit) {
+      twiddled |= 1 << (2 * shift + 1);
+    }
+  }
+  const rest = blocksX > blocksY ? x >> shift : y >> shift;
+  return twiddled + rest * (1 << (2 * shift));
+}
+
+/**
+ * Unpack color A (low half of the color word) and color B (high half) of a block,
+ * as 5-bit RGB and 4-bit alpha
+ *
+ * @param opaqueA Whether color A is stored as opaque RGB 554
+ * @param opaqueB Whether color B is stored as opaque RGB 555
+ */
+function unpackColors(word: number, opaqueA: boolean, opaqueB: boolean): [number[], number[]] {
+  let colorA: number[];
+  if (opaqueA) {
+    const b4 = (word >> 1) & 0xf;
+    colorA = [(word >> 10) & 0x1f, (word >> 5) & 0x1f, (b4 << 1) | (b4 >> 3), 0xf];
+  } else {
+    const r4 = (word >> 8) & 0xf;
+    const g4 = (word >> 4) & 0xf;
+    const b3 = (word >> 1) & 0x7;
+    colorA = [(r4 << 1) | (r4 >> 3), (g4 << 1) | (g4 >> 3), (b3 << 2) | (b3 >> 1), ((word >> 12) & 0x7) << 1];
+  }
+
+  let colorB: number[];
+  if (opaqueB) {
+    colorB = [(word >>> 26) & 0x1f, (word >>> 21) & 0x1f, (word >>> 16) & 0x1f, 0xf];
+  } else {
+    const r4 = (word >>> 24) & 0xf;
+    const g4 = (word >>> 20) & 0xf;
+    const b4 = (word >>> 16) & 0xf;
+    colorB = [(r4 << 1) | (r4 >> 3), (g4 << 1) | (g4 >> 3), (b4 << 1) | (b4 >> 3), ((word >>> 28) & 0x7) << 1];
+  }
+  return [colorA, colorB];
+}
+
+/**
+ * Decode a PVRTC1 or PVRTC2 4bpp image to RGBA8
+ *
+ * PVRTC2 blocks are stored in raster order and share one opacity flag (bit 31) for both colors.
+ * The PVRTC2 hard transition and non-interpolated modes, which the transcoder does not produce,
+ * are decoded as standard blocks.
+ *
+ * @param data The image's blocks
+ * @param width Width in texels
+ * @param height Height in texels
+ * @param isPVRTC2 Whether the data is PVRTC2 rather than PVRTC1
+ */
+export function decodePVRTC4(data: Uint8Array, width: number, height: number, isPVRTC2: boolean): Uint8Array {
+  const blocksX = Math.max(1, Math.ceil(width / 4));
+  const blocksY = Math.max(1, Math.ceil(height / 4));
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  const blockCount = blocksX * blocksY;
+  const modulations = new Uint32Array(blockCount);
+  const modes = new Uint8Array(blockCount);
+  const colorsA: number[][] = [];
+  const colorsB: number[][] = [];
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const index = by * blocksX + bx;
+      const offset = (isPVRTC2 ? index : twiddle(blocksX, blocksY, bx, by)) * 8;
+      const word = view.getUint32(offset + 4, true);
+      const opaqueB = (word >>> 31) === 1;
+      const opaqueA = isPVRTC2 ? opaqueB : ((word >> 15) & 1) === 1;
+      const [colorA, colorB] = unpackColors(word, opaqueA, opaqueB);
+      modulations[index] = view.getUint32(offset, true);
+      modes[index] = word & 1;
+      colorsA[index] = colorA;
+      colorsB[index] = colorB;
+    }
+  }
+
+  const out = new Uint8Array(width * height * 4);
+  const upscaledA = [0, 0, 0, 0];
+  const upscaledB = [0, 0, 0, 0];
+  for (let y = 0; y < height; y++) {
+    // The block colors sit at the block centers, so the four nearest blocks start half a block up and left
+    const by0 = Math.floor((y - 2) / 4);
+    const fy = y - 2 - by0 * 4;
+    const rowP = ((by0 % blocksY) + blocksY) % blocksY;
+    const rowR = (rowP + 1) % blocksY;
+    for (let x = 0; x < width; x++) {
+      const bx0 = Math.floor((x - 2) / 4);
+      const fx = x - 2 - bx0 * 4;
+      const columnP = ((bx0 % blocksX) + blocksX) % blocksX;
+      const columnQ = (columnP + 1) % blocksX;
+      const p = rowP * blocksX + columnP;
+      const q = rowP * blocksX + columnQ;
+      const r = rowR * blocksX + columnP;
+      const s = rowR * blocksX + columnQ;
+      const wp = (4 - fx) * (4 - fy);
+      const wq = fx * (4 - fy);
+      const wr = (4 - fx) * fy;
+      const ws = fx * fy;
+      for (let channel = 0; channel < 4; channel++) {
+        const a = colorsA[p][channel] * wp + colorsA[q][channel] * wq + colorsA[r][channel] * wr + colorsA[s][channel] * ws;
+        const b = colorsB[p][channel] * wp + colorsB[q][channel] * wq + colorsB[r][channel] * wr + colorsB[s][channel] * ws;
+        // 5-bit color or 4-bit alpha, scaled by 16, to 8 bits
+        upscaledA[channel] = channel < 3 ? (a >> 1) + (a >> 6) : a + (a >> 4);
+        upscaledB[channel] = channel < 3 ? (b >> 1) + (b >> 6) : b + (b >> 4);
+      }
+
+      const block = (y >> 2) * blocksX + (x >> 2);
+      const modulation = (modulations[block] >>> (((y & 3) * 4 + (x & 3)) * 2)) & 3;
+      const punchThrough = modes[block] === 1;
+      const weight = (punchThrough ? punchThroughWeights : modulationWeights)[modulation];
+      const pixel = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        out[pixel + channel] = (upscaledA[channel] * (8 - weight) + upscaledB[channel] * weight) >> 3;
+      }
+      if (punchThrough && modulation === 2) {
+        out[pixel + 3] = 0;
+      }
+    }
+  }
+  return out;
+}
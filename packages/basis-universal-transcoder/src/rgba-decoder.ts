@@ -0,0 +1,563 @@
+import { TranscodeResult, TranscoderTextureFormat } from './types';
+import { getFormatName } from './utils';
+import { decodeBC7Block } from './bc7-decoder';
+import { decodeASTC4x4Block } from './astc-decoder';
+import { decodePVRTC4 } from './pvrtc-decoder';
+
+/**
+ * Software decoding of transcoder output to RGBA8
+ *
+ * Turns the LDR block formats and the 16-bit formats back into pixels without a GPU,
+ * for golden image tests, thumbnails and canvas previews. Decoding follows the format
+ * specifications, results may differ from a particular GPU by a rounding step.
+ */
+
+/**
+ * Decodes one block to RGBA8 texels, row by row
+ */
+type BlockDecoder = (data: Uint8Array, offset: number, out: Uint8Array) => void;
+
+function expand5(value: number): number {
+  return (value << 3) | (value >> 2);
+}
+
+function expand6(value: number): number {
+  return (value << 2) | (value >> 4);
+}
+
+function clamp255(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
+
+function decode565(value: number): number[] {
+  return [expand5(value >> 11), expand6((value >> 5) & 0x3f), expand5(value & 0x1f)];
+}
+
+/**
+ * BC1 color block: two RGB565 endpoints and 2-bit indices.
+ * With color0 <= color1 the block has 3 colors plus transparent black, unless forceFourColors is set (BC3).
+ */
+function decodeBC1Colors(data: Uint8Array, offset: number, out: Uint8Array, forceFourColors: boolean): void {
+  const color0 = data[offset] | (data[offset + 1] << 8);
+  const color1 = data[offset + 2] | (data[offset + 3] << 8);
+  const c0 = decode565(color0);
+  const c1 = decode565(color1);
+  const palette = [[...c0, 255], [...c1, 255]];
+  if (forceFourColors || color0 > color1) {
+    palette.push(c0.map((v, i) => Math.floor((2 * v + c1[i] + 1) / 3)).concat(255));
+    palette.push(c0.map((v, i) => Math.floor((v + 2 * c1[i] + 1) / 3)).concat(255));
+  } else {
+    palette.push(c0.map((v, i) => (v + c1[i]) >> 1).concat(255));
+    palette.push([0, 0, 0, 0]);
+  }
+  for (let texel = 0; texel < 16; texel++) {
+    const index = (data[offset + 4 + (texel >> 2)] >> ((texel & 3) * 2)) & 3;
+    out.set(palette[index], texel * 4);
+  }
+}
+
+/**
+ * BC4 block: two 8-bit endpoints and 3-bit indices, written to one channel
+ */
+function decodeBC4Channel(data: Uint8Array, offset: number, out: Uint8Array, channel: number): void {
+  const e0 = data[offset];
+  const e1 = data[offset + 1];
+  const palette = [e0, e1];
+  if (e0 > e1) {
+    for (let i = 1; i < 7; i++) {
+      palette.push(Math.floor(((7 - i) * e0 + i * e1 + 3) / 7));
+    }
+  } else {
+    for (let i = 1; i < 5; i++) {
+      palette.push(Math.floor(((5 - i) * e0 + i * e1 + 2) / 5));
+    }
+    palette.push(0, 255);
+  }
+  // 48 bits of indices, read in two 24-bit halves
+  for (let half = 0; half < 2; half++) {
+    const base = offset + 2 + half * 3;
+    const bits = data[base] | (data[base + 1] << 8) | (data[base + 2] << 16);
+    for (let i = 0; i < 8; i++) {
+      out[(half * 8 + i) * 4 + channel] = palette[(bits >> (i * 3)) & 7];
+    }
+  }
+}
+
+function fillChannel(out: Uint8Array, channel: number, value: number): void {
+  for (let texel = 0; texel < 16; texel++) {
+    out[texel * 4 + channel] = value;
+  }
+}
+
+const etcModifiers = [
+  [2, 8], [5, 17], [9, 29], [13, 42], [18, 60], [24, 80], [33, 106], [47, 183],
+];
+
+const etcDistances = [3, 6, 11, 16, 23, 32, 41, 64];
+
+function expand4(value: number): number {
+  return value * 17;
+}
+
+function expand7(value: number): number {
+  return (value << 1) | (value >> 6);
+}
+
+function signed3(value: number): number {
+  return value & 4 ? value - 8 : value;
+}
+
+/**
+ * ETC1/ETC2 RGB block: 64 bits, big endian.
+ * Individual and differential modes are ETC1, differential blocks whose red, green or
+ * blue base overflows are the ETC2 T, H and planar modes. Alpha is written as 255.
+ */
+function decodeETC2Colors(data: Uint8Array, offset: number, out: Uint8Array): void {
+  const b = (i: number) => data[offset + i];
+  // Pixel indices are stored column by column, MSBs in bytes 4-5 and LSBs in bytes 6-7
+  const msbs = (b(4) << 8) | b(5);
+  const lsbs = (b(6) << 8) | b(7);
+  const indexOf = (x: number, y: number) => {
+    const i = x * 4 + y;
+    return (((msbs >> i) & 1) << 1) | ((lsbs >> i) & 1);
+  };
+  const write = (x: number, y: number, rgb: number[]) => {
+    const texel = (y * 4 + x) * 4;
+    out[texel] = clamp255(rgb[0]);
+    out[texel + 1] = clamp255(rgb[1]);
+    out[texel + 2] = clamp255(rgb[2]);
+    out[texel + 3] = 255;
+  };
+
+  const differential = (b(3) & 2) !== 0;
+  if (differential) {
+    const r = (b(0) >> 3) + signed3(b(0) & 7);
+    const g = (b(1) >> 3) + signed3(b(1) & 7);
+    const bl = (b(2) >> 3) + signed3(b(2) & 7);
+
+    if (r < 0 || r > 31) {
+      // T mode
+      const c0 = [expand4((((b(0) >> 3) & 3) << 2) | (b(0) & 3)), expand4(b(1) >> 4), expand4(b(1) & 0xf)];
+      const c1 = [expand4(b(2) >> 4), expand4(b(2) & 0xf), expand4(b(3) >> 4)];
+      const distance = etcDistances[(((b(3) >> 2) & 3) << 1) | (b(3) & 1)];
+      const paint = [c0, c1.map(v => v + distance), c1, c1.map(v => v - distance)];
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) {
+          write(x, y, paint[indexOf(x, y)]);
+        }
+      }
+      return;
+    }
+
+    if (g < 0 || g > 31) {
+      // H mode
+      const r0 = (b(0) >> 3) & 0xf;
+      const g0 = ((b(0) & 7) << 1) | ((b(1) >> 4) & 1);
+      const b0 = (((b(1) >> 3) & 1) << 3) | ((b(1) & 3) << 1) | (b(2) >> 7);
+      const r1 = (b(2) >> 3) & 0xf;
+      const g1 = ((b(2) & 7) << 1) | (b(3) >> 7);
+      const b1 = (b(3) >> 3) & 0xf;
+      const ordering = ((r0 << 8) | (g0 << 4) | b0) >= ((r1 << 8) | (g1 << 4) | b1) ? 1 : 0;
+      const distance = etcDistances[(((b(3) >> 2) & 1) << 2) | ((b(3) & 1) << 1) | ordering];
+      const c0 = [expand4(r0), expand4(g0), expand4(b0)];
+      const c1 = [expand4(r1), expand4(g1), expand4(b1)];
+      const paint = [c0.map(v => v + distance), c0.map(v => v - distance), c1.map(v => v + distance), c1.map(v => v - distance)];
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) {
+          write(x, y, paint[indexOf(x, y)]);
+        }
+      }
+      return;
+    }
+
+    if (bl < 0 || bl > 31) {
+      // Planar mode: origin, horizontal and vertical colors, extrapolated per texel
+      const origin = [
+        expand6((b(0) >> 1) & 0x3f),
+        expand7(((b(0) & 1) << 6) | ((b(1) >> 1) & 0x3f)),
+        expand6(((b(1) & 1) << 5) | (((b(2) >> 3) & 3) << 3) | ((b(2) & 3) << 1) | (b(3) >> 7)),
+      ];
+      const horizontal = [
+        expand6((((b(3) >> 2) & 0x1f) << 1) | (b(3) & 1)),
+        expand7(b(4) >> 1),
+        expand6(((b(4) & 1) << 5) | (b(5) >> 3)),
+      ];
+      const vertical = [
+        expand6(((b(5) & 7) << 3) | (b(6) >> 5)),
+        expand7(((b(6) & 0x1f) << 2) | (b(7) >> 6)),
+        expand6(b(7) & 0x3f),
+      ];
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) {
+          write(x, y, origin.map((o, i) => (x * (horizontal[i] - o) + y * (vertical[i] - o) + 4 * o + 2) >> 2));
+        }
+      }
+      return;
+    }
+  }
+
+  // ETC1: two sub-blocks, 2x4 side by side or 4x2 on top of each other
+  let bases: number[][];
+  if (differential) {
+    const base0 = [b(0) >> 3, b(1) >> 3, b(2) >> 3];
+    const base1 = base0.map((v, i) => v + signed3(b(i) & 7));
+    bases = [base0.map(expand5), base1.map(expand5)];
+  } else {
+    bases = [
+      [expand4(b(0) >> 4), expand4(b(1) >> 4), expand4(b(2) >> 4)],
+      [expand4(b(0) & 0xf), expand4(b(1) & 0xf), expand4(b(2) & 0xf)],
+    ];
+  }
+  const tables = [etcModifiers[b(3) >> 5], etcModifiers[(b(3) >> 2) & 7]];
+  const flip = (b(3) & 1) !== 0;
+  for (let y = 0; y < 4; y++) {
+    for (let x = 0; x < 4; x++) {
+      const subBlock = (flip ? y : x) >> 1;
+      const [small, large] = tables[subBlock];
+      const modifier = [small, large, -small, -large][indexOf(x, y)];
+      write(x, y, bases[subBlock].map(v => v + modifier));
+    }
+  }
+}
+
+const eacModifiers = [
+  [-3, -6, -9, -15, 2, 5, 8, 14],
+  [-3, -7, -10, -13, 2, 6, 9, 12],
+  [-2, -5, -8, -13, 1, 4, 7, 12],
+  [-2, -4, -6, -13, 1, 3, 5, 12],
+  [-3, -6, -8, -12, 2, 5, 7, 11],
+  [-3, -7, -9, -11, 2, 6, 8, 10],
+  [-4, -7, -8, -11, 3, 6, 7, 10],
+  [-3, -5, -8, -11, 2, 4, 7, 10],
+  [-2, -6, -8, -10, 1, 5, 7, 9],
+  [-2, -5, -8, -10, 1, 4, 7, 9],
+  [-2, -4, -8, -10, 1, 3, 7, 9],
+  [-2, -5, -7, -10, 1, 4, 6, 9],
+  [-3, -4, -7, -10, 2, 3, 6, 9],
+  [-1, -2, -3, -10, 0, 1, 2, 9],
+  [-4, -6, -8, -9, 3, 5, 7, 8],
+  [-3, -5, -7, -9, 2, 4, 6, 8],
+];
+
+/**
+ * EAC block (ETC2 alpha or R11/G11): base, multiplier, modifier table and 3-bit indices,
+ * 64 bits big endian, written to one channel
+ *
+ * @param elevenBit Decode at 11-bit precision (R11/RG11) rather than as 8-bit alpha
+ */
+function decodeEACChannel(data: Uint8Array, offset: number, out: Uint8Array, channel: number, elevenBit: boolean): void {
+  const base = data[offset];
+  const multiplier = data[offset + 1] >> 4;
+  const modifiers = eacModifiers[data[offset + 1] & 0xf];
+  // 48 bits of indices, read in two 24-bit halves from the most significant end
+  for (let half = 0; half < 2; half++) {
+    const start = offset + 2 + half * 3;
+    const bits = (data[start] << 16) | (data[start + 1] << 8) | data[start + 2];
+    for (let i = 0; i < 8; i++) {
+      const pixel = half * 8 + i;
+      const modifier = modifiers[(bits >> (21 - i * 3)) & 7];
+      let value: number;
+      if (elevenBit) {
+        const scaled = multiplier ? modifier * multiplier * 8 : modifier;
+        const value11 = Math.min(2047, Math.max(0, base * 8 + 4 + scaled));
+        value = Math.round(value11 * 255 / 2047);
+      } else {
+        value = clamp255(base + modifier * multiplier);
+      }
+      // Texels are stored column by column
+      const x = pixel >> 2;
+      const y = pixel & 3;
+      out[(y * 4 + x) * 4 + channel] = value;
+    }
+  }
+}
+
+/**
+ * ATC RGB block: like BC1, but color0 is RGB555 and its top bit selects the alternative mode,
+ * which has black and an extrapolated color instead of the two interpolated colors
+ */
+function decodeATCColors(data: Uint8Array, offset: number, out: Uint8Array): void {
+  const color0 = data[offset] | (data[offset + 1] << 8);
+  const color1 = data[offset + 2] | (data[offset + 3] << 8);
+  const c0 = [expand5((color0 >> 10) & 0x1f), expand5((color0 >> 5) & 0x1f), expand5(color0 & 0x1f)];
+  const c1 = decode565(color1);
+  let palette: number[][];
+  if (color0 & 0x8000) {
+    palette = [[0, 0, 0], c0.map((v, i) => clamp255(v - (c1[i] >> 2))), c0, c1];
+  } else {
+    palette = [
+      c0,
+      c0.map((v, i) => Math.floor((2 * v + c1[i] + 1) / 3)),
+      c0.map((v, i) => Math.floor((v + 2 * c1[i] + 1) / 3)),
+      c1,
+    ];
+  }
+  for (let texel = 0; texel < 16; texel++) {
+    const index = (data[offset + 4 + (texel >> 2)] >> ((texel & 3) * 2)) & 3;
+    out.set(palette[index], texel * 4);
+    out[texel * 4 + 3] = 255;
+  }
+}
+
+/**
+ * FXT1 8x4 block: 128 bits, little endian, in one of the CC_HI, CC_CHROMA, CC_ALPHA and CC_MIXED modes
+ */
+function decodeFXT1Block(data: Uint8Array, offset: number, out: Uint8Array): void {
+  const bits = (start: number, count: number): number => {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const p = start + i;
+      value |= ((data[offset + (p >> 3)] >> (p & 7)) & 1) << i;
+    }
+    return value >>> 0;
+  };
+  const lerp = (n: number, t: number, a: number, b: number) => Math.floor(((n - t) * a + t * b + (n >> 1)) / n);
+  const rgb555 = (start: number) => [expand5(bits(start + 10, 5)), expand5(bits(start + 5, 5)), expand5(bits(start, 5))];
+  const write = (x: number, y: number, rgba: number[]) => out.set(rgba, (y * 8 + x) * 4);
+
+  const mode = bits(125, 3);
+  for (let y = 0; y < 4; y++) {
+    for (let x = 0; x < 8; x++) {
+      // Texel number: the left 4x4 half is 0-15, the right half 16-31
+      const half = x >> 2;
+      const texel = half * 16 + y * 4 + (x & 3);
+
+      if (mode < 2) {
+        // CC_HI: two RGB555 colors, 3-bit indices with 7 meaning transparent
+        const index = bits(texel * 3, 3);
+        if (index === 7) {
+          write(x, y, [0, 0, 0, 0]);
+          continue;
+        }
+        const c0 = rgb555(96);
+        const c1 = rgb555(111);
+        write(x, y, [...c0.map((v, i) => lerp(6, index, v, c1[i])), 255]);
+      } else if (mode === 2) {
+        // CC_CHROMA: four RGB555 colors, 2-bit indices, no interpolation
+        const index = bits(texel * 2, 2);
+        write(x, y, [...rgb555(64 + index * 15), 255]);
+      } else if (mode === 3) {
+        // CC_ALPHA: RGBA5555 colors with either interpolation or three colors plus transparent
+        const index = bits(texel * 2, 2);
+        if (bits(124, 1)) {
+          const rgba = (colorStart: number, alphaStart: number) => [...rgb555(colorStart), expand5(bits(alphaStart, 5))];
+          const c0 = half ? rgba(94, 119) : rgba(64, 109);
+          const c1 = rgba(79, 114);
+          write(x, y, c0.map((v, i) => lerp(3, index, v, c1[i])));
+        } else if (index === 3) {
+          write(x, y, [0, 0, 0, 0]);
+        } else {
+          write(x, y, [...rgb555(64 + index * 15), expand5(bits(109 + index * 5, 5))]);
+        }
+      } else {
+        // CC_MIXED: an RGB565 color pair per half, the green LSB of the first color derived from the indices
+        const index = bits(texel * 2, 2);
+        const colorStart = half ? 94 : 64;
+        const greenLSB = bits(half ? 126 : 125, 1);
+        const selectBit = bits(half ? 33 : 1, 1);
+        const c1 = [
+          expand5(bits(colorStart + 25, 5)),
+          expand6((bits(colorStart + 20, 5) << 1) | greenLSB),
+          expand5(bits(colorStart + 15, 5)),
+        ];
+        if (bits(124, 1)) {
+          if (index === 3) {
+            write(x, y, [0, 0, 0, 0]);
+            continue;
+          }
+          const c0 = [expand5(bits(colorStart + 10, 5)), expand5(bits(colorStart + 5, 5)), expand5(bits(colorStart, 5))];
+          const color = index === 0 ? c0 : index === 2 ? c1 : c0.map((v, i) => (v + c1[i]) >> 1);
+          write(x, y, [...color, 255]);
+        } else {
+          const c0 = [
+            expand5(bits(colorStart + 10, 5)),
+            expand6((bits(colorStart + 5, 5) << 1) | (greenLSB ^ selectBit)),
+            expand5(bits(colorStart, 5)),
+          ];
+          write(x, y, [...c0.map((v, i) => lerp(3, index, v, c1[i])), 255]);
+        }
+      }
+    }
+  }
+}
+
+interface BlockFormat {
+  blockWidth: number;
+  blockHeight: number;
+  bytesPerBlock: number;
+  decode: BlockDecoder;
+}
+
+const blockFormats: Partial<Record<TranscoderTextureFormat, BlockFormat>> = {
+  [TranscoderTextureFormat.cTFETC1_RGB]: { blockWidth: 4, blockHeight: 4, bytesPerBlock: 8, decode: decodeETC2Colors },
+  [TranscoderTextureFormat.cTFETC2_RGBA]: {
+    blockWidth: 4, blockHeight: 4, bytesPerBlock: 16,
+    decode: (data, offset, out) => {
+      decodeETC2Colors(data, offset + 8, out);
+      decodeEACChannel(data, offset, out, 3, false);
+    },
+  },
+  [TranscoderTextureFormat.cTFBC1_RGB]: {
+    blockWidth: 4, blockHeight: 4, bytesPerBlock: 8,
+    decode: (data, offset, out) => decodeBC1Colors(data, offset, out, false),
+  },
+  [TranscoderTextureFormat.cTFBC3_RGBA]: {
+    blockWidth: 4, blockHeight: 4, bytesPerBlock: 16,
+    decode: (data, offset, out) => {
+      decodeBC1Colors(data, offset + 8, out, true);
+      decodeBC4Channel(data, offset, out, 3);
+    },
+  },
+  [TranscoderTextureFormat.cTFBC4_R]: {
+    blockWidth: 4, blockHeight: 4, bytesPerBlock: 8,
+    decode: (data, offset, out) => {
+      out.fill(0, 0, 64);
+      decodeBC4Channel(data, offset, out, 0);
+      fillChannel(out, 3, 255);
+    },
+  },
+  [TranscoderTextureFormat.cTFBC5_RG]: {
+    blockWidth: 4, blockHeight: 4, bytesPerBlock: 16,
+    decode: (data, offset, out) => {
+      out.fill(0, 0, 64);
+      decodeBC4Channel(data, offset, out, 0);
+      decodeBC4Channel(data, offset + 8, out, 1);
+      fillChannel(out, 3, 255);
+    },
+  },
+  [TranscoderTextureFormat.cTFBC7_RGBA]: { blockWidth: 4, blockHeight: 4, bytesPerBlock: 16, decode: decodeBC7Block },
+  [TranscoderTextureFormat.cTFASTC_4x4_RGBA]: { blockWidth: 4, blockHeight: 4, bytesPerBlock: 16, decode: decodeASTC4x4Block },
+  [TranscoderTextureFormat.cTFATC_RGB]: { blockWidth: 4, blockHeight: 4, bytesPerBlock: 8, decode: decodeATCColors },
+  [TranscoderTextureFormat.cTFATC_RGBA]: {
+    blockWidth: 4, blockHeight: 4, bytesPerBlock: 16,
+    decode: (data, offset, out) => {
+      decodeATCColors(data, offset + 8, out);
+      decodeBC4Channel(data, offset, out, 3);
+    },
+  },
+  [TranscoderTextureFormat.cTFFXT1_RGB]: { blockWidth: 8, blockHeight: 4, bytesPerBlock: 16, decode: decodeFXT1Block },
+  [TranscoderTextureFormat.cTFETC2_EAC_R11]: {
+    blockWidth: 4, blockHeight: 4, bytesPerBlock: 8,
+    decode: (data, offset, out) => {
+      out.fill(0, 0, 64);
+      decodeEACChannel(data, offset, out, 0, true);
+      fillChannel(out, 3, 255);
+    },
+  },
+  [TranscoderTextureFormat.cTFETC2_EAC_RG11]: {
+    blockWidth: 4, blockHeight: 4, bytesPerBlock: 16,
+    decode: (data, offset, out) => {
+      out.fill(0, 0, 64);
+      decodeEACChannel(data, offset, out, 0, true);
+      decodeEACChannel(data, offset + 8, out, 1, true);
+      fillChannel(out, 3, 255);
+    },
+  },
+};
+
+function decodeBlocks(data: Uint8Array, width: number, height: number, format: BlockFormat): Uint8Array {
+  const { blockWidth, blockHeight, bytesPerBlock, decode } = format;
+  const blocksX = Math.ceil(width / blockWidth);
+  const blocksY = Math.ceil(height / blockHeight);
+  const out = new Uint8Array(width * height * 4);
+  const block = new Uint8Array(blockWidth * blockHeight * 4);
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      decode(data, (by * blocksX + bx) * bytesPerBlock, block);
+      // Blocks on the right and bottom edges may extend past the image
+      const columns = Math.min(blockWidth, width - bx * blockWidth);
+      const rows = Math.min(blockHeight, height - by * blockHeight);
+      for (let y = 0; y < rows; y++) {
+        const source = y * blockWidth * 4;
+        out.set(block.subarray(source, source + columns * 4), ((by * blockHeight + y) * width + bx * blockWidth) * 4);
+      }
+    }
+  }
+  return out;
+}
+
+function decode16BitPixels(data: Uint8Array, pixelCount: number, unpack: (value: number) => number[]): Uint8Array {
+  const out = new Uint8Array(pixelCount * 4);
+  for (let i = 0; i < pixelCount; i++) {
+    out.set(unpack(data[i * 2] | (data[i * 2 + 1] << 8)), i * 4);
+  }
+  return out;
+}
+
+function getRequiredByteLength(width: number, height: number, format: TranscoderTextureFormat): number {
+  const blockFormat = blockFormats[format];
+  if (blockFormat) {
+    return Math.ceil(width / blockFormat.blockWidth) * Math.ceil(height / blockFormat.blockHeight) * blockFormat.bytesPerBlock;
+  }
+  switch (format) {
+    case TranscoderTextureFormat.cTFPVRTC1_4_RGB:
+    case TranscoderTextureFormat.cTFPVRTC1_4_RGBA:
+    case TranscoderTextureFormat.cTFPVRTC2_4_RGB:
+    case TranscoderTextureFormat.cTFPVRTC2_4_RGBA:
+      return Math.max(1, Math.ceil(width / 4)) * Math.max(1, Math.ceil(height / 4)) * 8;
+    case TranscoderTextureFormat.cTFRGBA32:
+      return width * height * 4;
+    default:
+      return width * height * 2;
+  }
+}
+
+/**
+ * Decode a transcoded image to RGBA8
+ *
+ * Supports every LDR format: ETC1, ETC2 RGBA, EAC R11/RG11, BC1/3/4/5/7, ASTC 4x4, PVRTC1/2 4bpp,
+ * ATC, FXT1, RGBA32, RGB565, BGR565 and RGBA4444. Single and two channel formats are returned as
+ * the GPU samples them, (R, 0, 0, 255) and (R, G, 0, 255). For the HDR formats use
+ * decodeHDRToFloat32() and toneMapToRGBA8() on half float or 9E5 output instead.
+ *
+ * @param result Output of transcodeImageLevel(), data in the given format
+ * @param format The format of result.data
+ * @returns A new buffer with four bytes per pixel, rows of result.width pixels
+ * @throws Error if the format is not supported or the data is too short
+ */
+export function decodeToRGBA(result: TranscodeResult, format: TranscoderTextureFormat): Uint8Array {
+  const { data, width, height } = result;
+  const isDecodable = blockFormats[format] !== undefined || [
+    TranscoderTextureFormat.cTFPVRTC1_4_RGB,
+    TranscoderTextureFormat.cTFPVRTC1_4_RGBA,
+    TranscoderTextureFormat.cTFPVRTC2_4_RGB,
+    TranscoderTextureFormat.cTFPVRTC2_4_RGBA,
+    TranscoderTextureFormat.cTFRGBA32,
+    TranscoderTextureFormat.cTFRGB565,
+    TranscoderTextureFormat.cTFBGR565,
+    TranscoderTextureFormat.cTFRGBA4444,
+  ].includes(format);
+  if (!isDecodable) {
+    throw new Error(`${getFormatName(format)} cannot be decoded to RGBA8.`);
+  }
+  const byteLength = getRequiredByteLength(width, height, format);
+  if (data.length < byteLength) {
+    throw new Error(`${width}x${height} ${getFormatName(format)} needs ${byteLength} bytes, ${data.length} given.`);
+  }
+
+  const blockFormat = blockFormats[format];
+  if (blockFormat) {
+    return decodeBlocks(data, width, height, blockFormat);
+  }
+
+  const pixelCount = width * height;
+  switch (format) {
+    case TranscoderTextureFormat.cTFPVRTC1_4_RGB:
+    case TranscoderTextureFormat.cTFPVRTC1_4_RGBA:
+      return decodePVRTC4(data, width, height, false);
+    case TranscoderTextureFormat.cTFPVRTC2_4_RGB:
+    case TranscoderTextureFormat.cTFPVRTC2_4_RGBA:
+      return decodePVRTC4(data, width, height, true);
+    case TranscoderTextureFormat.cTFRGBA32:
+      return data.slice(0, pixelCount * 4);
+    case TranscoderTextureFormat.cTFRGB565:
+      return decode16BitPixels(data, pixelCount, value => [...decode565(value), 255]);
+    case TranscoderTextureFormat.cTFBGR565:
+      return decode16BitPixels(data, pixelCount, value =>
+        [expand5(value & 0x1f), expand6((value >> 5) & 0x3f), expand5(value >> 11), 255]);
+    default:
+      // RGBA4444, R in the top bits
+      return decode16BitPixels(data, pixelCount, value =>
+        [expand4(value >> 12), expand4((value >> 8) & 0xf), expand4((value >> 4) & 0xf), expand4(value & 0xf)]);
+  }
+}
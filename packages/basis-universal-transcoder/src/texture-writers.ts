@@ -0,0 +1,647 @@
+import { TextureKind, TranscodedImage, TranscodedTexture, TranscoderTextureFormat } from './types';
+import { getFormatName } from './utils';
+import { decodeToRGBA } from './rgba-decoder';
+import { KTX2ChannelId, KTX2ColorModel, KTX2ColorPrimaries, KTX2TransferFunction } from './data-format-descriptor';
+
+/**
+ * Container writers for transcoded textures: DDS, KTX2, PVR v3, .astc and PNG
+ *
+ * Each writer takes the output of KTX2Transcoder.transcodeAll() and maps the
+ * TranscoderTextureFormat to the container's own format enum.
+ */
+
+export interface TextureWriterOptions {
+  /** Tag the color data as sRGB encoded, for formats that have an sRGB variant. Default false. */
+  srgb?: boolean;
+}
+
+export interface KTX2WriterOptions extends TextureWriterOptions {
+  /** Key/value entries to store, KTXwriter is added unless given */
+  keyValueData?: Map<string, Uint8Array | string>;
+}
+
+/**
+ * The image to write, for containers that hold a single image. Each index defaults to 0.
+ */
+export interface TextureImageSelection {
+  level?: number;
+  layer?: number;
+  face?: number;
+}
+
+/**
+ * DXGI_FORMAT values, linear and sRGB
+ */
+const dxgiFormats: Partial<Record<TranscoderTextureFormat, [number, number]>> = {
+  [TranscoderTextureFormat.cTFBC1_RGB]: [71, 72],        // DXGI_FORMAT_BC1_UNORM(_SRGB)
+  [TranscoderTextureFormat.cTFBC3_RGBA]: [77, 78],       // DXGI_FORMAT_BC3_UNORM(_SRGB)
+  [TranscoderTextureFormat.cTFBC4_R]: [80, 80],          // DXGI_FORMAT_BC4_UNORM
+  [TranscoderTextureFormat.cTFBC5_RG]: [83, 83],         // DXGI_FORMAT_BC5_UNORM
+  [TranscoderTextureFormat.cTFBC6H]: [95, 95],           // DXGI_FORMAT_BC6H_UF16
+  [TranscoderTextureFormat.cTFBC7_RGBA]: [98, 99],       // DXGI_FORMAT_BC7_UNORM(_SRGB)
+  [TranscoderTextureFormat.cTFRGBA32]: [28, 29],         // DXGI_FORMAT_R8G8B8A8_UNORM(_SRGB)
+  [TranscoderTextureFormat.cTFRGB565]: [85, 85],         // DXGI_FORMAT_B5G6R5_UNORM, R in the high bits
+  [TranscoderTextureFormat.cTFRGBA_HALF]: [10, 10],      // DXGI_FORMAT_R16G16B16A16_FLOAT
+  [TranscoderTextureFormat.cTFRGB_9E5]: [67, 67],        // DXGI_FORMAT_R9G9B9E5_SHAREDEXP
+};
+
+/**
+ * The DXGI_FORMAT for a transcoder format
+ *
+ * @returns The format, or null if DDS has no matching DXGI format
+ */
+export function getDXGIFormat(format: TranscoderTextureFormat, srgb: boolean = false): number | null {
+  const formats = dxgiFormats[format];
+  return formats ? formats[srgb ? 1 : 0] : null;
+}
+
+/**
+ * PVR v3 pixel formats: a compressed format enum, or channel names and bit counts for uncompressed formats
+ */
+type PVRPixelFormat =
+  | { compressed: number; channelType: number }
+  | { channels: string; bits: number[]; channelType: number };
+
+const PVR_UNSIGNED_BYTE_NORM = 0;
+const PVR_UNSIGNED_SHORT_NORM = 4;
+const PVR_SIGNED_FLOAT = 12;
+const PVR_UNSIGNED_FLOAT = 13;
+
+const pvrPixelFormats: Partial<Record<TranscoderTextureFormat, PVRPixelFormat>> = {
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGB]: { compressed: 2, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGBA]: { compressed: 3, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFPVRTC2_4_RGB]: { compressed: 5, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFPVRTC2_4_RGBA]: { compressed: 5, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFETC1_RGB]: { compressed: 6, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFBC1_RGB]: { compressed: 7, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFBC3_RGBA]: { compressed: 11, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFBC4_R]: { compressed: 12, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFBC5_RG]: { compressed: 13, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFBC6H]: { compressed: 14, channelType: PVR_UNSIGNED_FLOAT },
+  [TranscoderTextureFormat.cTFBC7_RGBA]: { compressed: 15, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFRGB_9E5]: { compressed: 19, channelType: PVR_UNSIGNED_FLOAT },
+  [TranscoderTextureFormat.cTFETC2_RGBA]: { compressed: 23, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFETC2_EAC_R11]: { compressed: 25, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFETC2_EAC_RG11]: { compressed: 26, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFASTC_4x4_RGBA]: { compressed: 27, channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA]: { compressed: 27, channelType: PVR_SIGNED_FLOAT },
+  [TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA]: { compressed: 31, channelType: PVR_SIGNED_FLOAT },
+  [TranscoderTextureFormat.cTFRGBA32]: { channels: 'rgba', bits: [8, 8, 8, 8], channelType: PVR_UNSIGNED_BYTE_NORM },
+  [TranscoderTextureFormat.cTFRGB565]: { channels: 'rgb', bits: [5, 6, 5], channelType: PVR_UNSIGNED_SHORT_NORM },
+  [TranscoderTextureFormat.cTFBGR565]: { channels: 'bgr', bits: [5, 6, 5], channelType: PVR_UNSIGNED_SHORT_NORM },
+  [TranscoderTextureFormat.cTFRGBA4444]: { channels: 'rgba', bits: [4, 4, 4, 4], channelType: PVR_UNSIGNED_SHORT_NORM },
+  [TranscoderTextureFormat.cTFRGB_HALF]: { channels: 'rgb', bits: [16, 16, 16], channelType: PVR_SIGNED_FLOAT },
+  [TranscoderTextureFormat.cTFRGBA_HALF]: { channels: 'rgba', bits: [16, 16, 16, 16], channelType: PVR_SIGNED_FLOAT },
+};
+
+/** ASTC block dimensions of the ASTC target formats */
+const astcBlockDimensions: Partial<Record<TranscoderTextureFormat, [number, number]>> = {
+  [TranscoderTextureFormat.cTFASTC_4x4_RGBA]: [4, 4],
+  [TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA]: [4, 4],
+  [TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA]: [6, 6],
+};
+
+function unsupported(format: TranscoderTextureFormat, container: string): Error {
+  return new Error(`${getFormatName(format)} cannot be stored in ${container} files.`);
+}
+
+function isArrayKind(kind: TextureKind): boolean {
+  return kind === TextureKind.Texture2DArray || kind === TextureKind.CubemapArray;
+}
+
+function isCubemapKind(kind: TextureKind): boolean {
+  return kind === TextureKind.Cubemap || kind === TextureKind.CubemapArray;
+}
+
+function getImage(texture: TranscodedTexture, selection: TextureImageSelection): TranscodedImage {
+  const { level = 0, layer = 0, face = 0 } = selection;
+  const image = texture.images[level]?.[layer]?.[face];
+  if (!image) {
+    throw new Error(`The texture has no image at level ${level}, layer ${layer}, face ${face}.`);
+  }
+  return image;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+const DDS_MAGIC = 0x20534444; // 'DDS '
+const DDS_HEADER_SIZE = 124;
+const DDS_PIXELFORMAT_SIZE = 32;
+const DDSD_CAPS = 0x1;
+const DDSD_HEIGHT = 0x2;
+const DDSD_WIDTH = 0x4;
+const DDSD_PITCH = 0x8;
+const DDSD_PIXELFORMAT = 0x1000;
+const DDSD_MIPMAPCOUNT = 0x20000;
+const DDSD_LINEARSIZE = 0x80000;
+const DDPF_FOURCC = 0x4;
+const DDSCAPS_COMPLEX = 0x8;
+const DDSCAPS_TEXTURE = 0x1000;
+const DDSCAPS_MIPMAP = 0x400000;
+const DDSCAPS2_CUBEMAP_ALLFACES = 0xfe00;
+const DX10_FOURCC = 0x30315844; // 'DX10'
+const D3D10_RESOURCE_DIMENSION_TEXTURE2D = 3;
+const D3D11_RESOURCE_MISC_TEXTURECUBE = 0x4;
+
+/**
+ * Write a DDS file with a DX10 header
+ *
+ * Supports the BC formats, RGBA32, RGB565, RGBA half float and RGB 9E5. Arrays and cubemaps
+ * are stored as DX10 texture arrays, each array element holding its full mip chain.
+ *
+ * @throws Error if DDS has no DXGI format for the texture's format
+ */
+export function writeDDS(texture: TranscodedTexture, options: TextureWriterOptions = {}): Uint8Array {
+  const dxgiFormat = getDXGIFormat(texture.format, options.srgb);
+  if (dxgiFormat === null) {
+    throw unsupported(texture.format, 'DDS');
+  }
+
+  const isCompressed = texture.format !== TranscoderTextureFormat.cTFRGBA32 &&
+    texture.format !== TranscoderTextureFormat.cTFRGB565 &&
+    texture.format !== TranscoderTextureFormat.cTFRGBA_HALF &&
+    texture.format !== TranscoderTextureFormat.cTFRGB_9E5;
+  const topImage = texture.images[0][0][0];
+  const isCubemap = isCubemapKind(texture.kind);
+  const hasMipmaps = texture.levelCount > 1;
+
+  const header = new Uint8Array(4 + DDS_HEADER_SIZE + 20);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, DDS_MAGIC, true);
+  view.setUint32(4, DDS_HEADER_SIZE, true);
+  view.setUint32(8, DDSD_CAPS | DDSD_HEIGHT | DDSD_WIDTH | DDSD_PIXELFORMAT |
+    (hasMipmaps ? DDSD_MIPMAPCOUNT : 0) | (isCompressed ? DDSD_LINEARSIZE : DDSD_PITCH), true);
+  view.setUint32(12, texture.height, true);
+  view.setUint32(16, texture.width, true);
+  view.setUint32(20, isCompressed ? topImage.data.byteLength : topImage.data.byteLength / topImage.height, true);
+  view.setUint32(28, texture.levelCount, true);
+  // DDS_PIXELFORMAT at 76, deferring to the DX10 header
+  view.setUint32(76, DDS_PIXELFORMAT_SIZE, true);
+  view.setUint32(80, DDPF_FOURCC, true);
+  view.setUint32(84, DX10_FOURCC, true);
+  view.setUint32(108, DDSCAPS_TEXTURE | (hasMipmaps || isCubemap ? DDSCAPS_COMPLEX : 0) | (hasMipmaps ? DDSCAPS_MIPMAP : 0), true);
+  view.setUint32(112, isCubemap ? DDSCAPS2_CUBEMAP_ALLFACES : 0, true);
+  // DDS_HEADER_DXT10
+  view.setUint32(128, dxgiFormat, true);
+  view.setUint32(132, D3D10_RESOURCE_DIMENSION_TEXTURE2D, true);
+  view.setUint32(136, isCubemap ? D3D11_RESOURCE_MISC_TEXTURECUBE : 0, true);
+  view.setUint32(140, texture.layerCount, true);
+
+  const parts: Uint8Array[] = [header];
+  for (let layer = 0; layer < texture.layerCount; layer++) {
+    for (let face = 0; face < texture.faceCount; face++) {
+      for (let level = 0; level < texture.levelCount; level++) {
+        parts.push(texture.images[level][layer][face].data);
+      }
+    }
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * VkFormat values, linear and sRGB
+ */
+const vkFormats: Partial<Record<TranscoderTextureFormat, [number, number]>> = {
+  [TranscoderTextureFormat.cTFETC1_RGB]: [147, 148],                  // VK_FORMAT_ETC2_R8G8B8_UNORM(_SRGB)_BLOCK
+  [TranscoderTextureFormat.cTFETC2_RGBA]: [151, 152],                 // VK_FORMAT_ETC2_R8G8B8A8_UNORM(_SRGB)_BLOCK
+  [TranscoderTextureFormat.cTFBC1_RGB]: [131, 132],                   // VK_FORMAT_BC1_RGB_UNORM(_SRGB)_BLOCK
+  [TranscoderTextureFormat.cTFBC3_RGBA]: [137, 138],                  // VK_FORMAT_BC3_UNORM(_SRGB)_BLOCK
+  [TranscoderTextureFormat.cTFBC4_R]: [139, 139],                     // VK_FORMAT_BC4_UNORM_BLOCK
+  [TranscoderTextureFormat.cTFBC5_RG]: [141, 141],                    // VK_FORMAT_BC5_UNORM_BLOCK
+  [TranscoderTextureFormat.cTFBC6H]: [143, 143],                      // VK_FORMAT_BC6H_UFLOAT_BLOCK
+  [TranscoderTextureFormat.cTFBC7_RGBA]: [145, 146],                  // VK_FORMAT_BC7_UNORM(_SRGB)_BLOCK
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGB]: [1000054001, 1000054005],  // VK_FORMAT_PVRTC1_4BPP_UNORM(_SRGB)_BLOCK_IMG
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGBA]: [1000054001, 1000054005],
+  [TranscoderTextureFormat.cTFPVRTC2_4_RGB]: [1000054003, 1000054007],  // VK_FORMAT_PVRTC2_4BPP_UNORM(_SRGB)_BLOCK_IMG
+  [TranscoderTextureFormat.cTFPVRTC2_4_RGBA]: [1000054003, 1000054007],
+  [TranscoderTextureFormat.cTFASTC_4x4_RGBA]: [157, 158],             // VK_FORMAT_ASTC_4x4_UNORM(_SRGB)_BLOCK
+  [TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA]: [1000066000, 1000066000], // VK_FORMAT_ASTC_4x4_SFLOAT_BLOCK
+  [TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA]: [1000066004, 1000066004], // VK_FORMAT_ASTC_6x6_SFLOAT_BLOCK
+  [TranscoderTextureFormat.cTFETC2_EAC_R11]: [153, 153],              // VK_FORMAT_EAC_R11_UNORM_BLOCK
+  [TranscoderTextureFormat.cTFETC2_EAC_RG11]: [155, 155],             // VK_FORMAT_EAC_R11G11_UNORM_BLOCK
+  [TranscoderTextureFormat.cTFRGBA32]: [37, 43],                      // VK_FORMAT_R8G8B8A8_UNORM / _SRGB
+  [TranscoderTextureFormat.cTFRGB565]: [4, 4],                        // VK_FORMAT_R5G6B5_UNORM_PACK16
+  [TranscoderTextureFormat.cTFBGR565]: [5, 5],                        // VK_FORMAT_B5G6R5_UNORM_PACK16
+  [TranscoderTextureFormat.cTFRGBA4444]: [2, 2],                      // VK_FORMAT_R4G4B4A4_UNORM_PACK16
+  [TranscoderTextureFormat.cTFRGB_HALF]: [90, 90],                    // VK_FORMAT_R16G16B16_SFLOAT
+  [TranscoderTextureFormat.cTFRGBA_HALF]: [97, 97],                   // VK_FORMAT_R16G16B16A16_SFLOAT
+  [TranscoderTextureFormat.cTFRGB_9E5]: [123, 123],                   // VK_FORMAT_E5B9G9R9_UFLOAT_PACK32
+};
+
+/**
+ * The VkFormat for a transcoder format, as stored in the KTX2 header
+ *
+ * @returns The format, or null if Vulkan has no matching format
+ */
+export function getVkFormat(format: TranscoderTextureFormat, srgb: boolean = false): number | null {
+  const formats = vkFormats[format];
+  return formats ? formats[srgb ? 1 : 0] : null;
+}
+
+const KHR_DF_SAMPLE_DATATYPE_LINEAR = 0x10;
+const KHR_DF_SAMPLE_DATATYPE_EXPONENT = 0x20;
+const KHR_DF_SAMPLE_DATATYPE_SIGNED = 0x40;
+const KHR_DF_SAMPLE_DATATYPE_FLOAT = 0x80;
+const FLOAT_ONE = 0x3f800000;
+const FLOAT_MINUS_ONE = 0xbf800000;
+
+/** [channelType with qualifiers, bitOffset, bitLength, sampleLower, sampleUpper] */
+type DFDSampleLayout = [number, number, number, number, number];
+
+interface DFDLayout {
+  colorModel: KTX2ColorModel;
+  blockWidth: number;
+  blockHeight: number;
+  bytesPerBlock: number;
+  /** Bytes per component for the KTX2 typeSize field */
+  typeSize: number;
+  samples: DFDSampleLayout[];
+}
+
+function compressedLayout(colorModel: KTX2ColorModel, blockSize: number, bytesPerBlock: number, channels: number[], qualifiers = 0): DFDLayout {
+  const [lower, upper] = qualifiers & KHR_DF_SAMPLE_DATATYPE_SIGNED ? [FLOAT_MINUS_ONE, FLOAT_ONE] :
+    qualifiers & KHR_DF_SAMPLE_DATATYPE_FLOAT ? [0, FLOAT_ONE] : [0, 0xffffffff];
+  const bits = (bytesPerBlock * 8) / channels.length;
+  return {
+    colorModel,
+    blockWidth: blockSize,
+    blockHeight: blockSize,
+    bytesPerBlock,
+    typeSize: 1,
+    samples: channels.map((channel, i) => [channel | qualifiers, i * bits, bits, lower, upper]),
+  };
+}
+
+function uncompressedLayout(bytesPerTexel: number, typeSize: number, samples: DFDSampleLayout[]): DFDLayout {
+  return { colorModel: KTX2ColorModel.RGBSDA, blockWidth: 1, blockHeight: 1, bytesPerBlock: bytesPerTexel, typeSize, samples };
+}
+
+const { RGBSDA_RED: R, RGBSDA_GREEN: G, RGBSDA_BLUE: B, RGBSDA_ALPHA: A } = KTX2ChannelId;
+const HALF = KHR_DF_SAMPLE_DATATYPE_FLOAT | KHR_DF_SAMPLE_DATATYPE_SIGNED;
+const EXPONENT = KHR_DF_SAMPLE_DATATYPE_EXPONENT;
+
+// Channel ids of the compressed color models, from khr_df.h
+const dfdLayouts: Partial<Record<TranscoderTextureFormat, DFDLayout>> = {
+  [TranscoderTextureFormat.cTFETC1_RGB]: compressedLayout(KTX2ColorModel.ETC1, 4, 8, [0]),
+  [TranscoderTextureFormat.cTFETC2_RGBA]: compressedLayout(KTX2ColorModel.ETC2, 4, 16, [15, 2]),
+  [TranscoderTextureFormat.cTFETC2_EAC_R11]: compressedLayout(KTX2ColorModel.ETC2, 4, 8, [0]),
+  [TranscoderTextureFormat.cTFETC2_EAC_RG11]: compressedLayout(KTX2ColorModel.ETC2, 4, 16, [0, 1]),
+  [TranscoderTextureFormat.cTFBC1_RGB]: compressedLayout(KTX2ColorModel.BC1A, 4, 8, [0]),
+  [TranscoderTextureFormat.cTFBC3_RGBA]: compressedLayout(KTX2ColorModel.BC3, 4, 16, [15, 0]),
+  [TranscoderTextureFormat.cTFBC4_R]: compressedLayout(KTX2ColorModel.BC4, 4, 8, [0]),
+  [TranscoderTextureFormat.cTFBC5_RG]: compressedLayout(KTX2ColorModel.BC5, 4, 16, [0, 1]),
+  [TranscoderTextureFormat.cTFBC6H]: compressedLayout(KTX2ColorModel.BC6H, 4, 16, [0], KHR_DF_SAMPLE_DATATYPE_FLOAT),
+  [TranscoderTextureFormat.cTFBC7_RGBA]: compressedLayout(KTX2ColorModel.BC7, 4, 16, [0]),
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGB]: compressedLayout(KTX2ColorModel.PVRTC, 4, 8, [0]),
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGBA]: compressedLayout(KTX2ColorModel.PVRTC, 4, 8, [0]),
+  [TranscoderTextureFormat.cTFPVRTC2_4_RGB]: compressedLayout(KTX2ColorModel.PVRTC2, 4, 8, [0]),
+  [TranscoderTextureFormat.cTFPVRTC2_4_RGBA]: compressedLayout(KTX2ColorModel.PVRTC2, 4, 8, [0]),
+  [TranscoderTextureFormat.cTFASTC_4x4_RGBA]: compressedLayout(KTX2ColorModel.ASTC, 4, 16, [0]),
+  [TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA]: compressedLayout(KTX2ColorModel.ASTC, 4, 16, [0], HALF),
+  [TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA]: compressedLayout(KTX2ColorModel.ASTC, 6, 16, [0], HALF),
+  [TranscoderTextureFormat.cTFRGBA32]: uncompressedLayout(4, 1, [[R, 0, 8, 0, 255], [G, 8, 8, 0, 255], [B, 16, 8, 0, 255], [A, 24, 8, 0, 255]]),
+  // Packed formats list their samples from the least significant bit up
+  [TranscoderTextureFormat.cTFRGB565]: uncompressedLayout(2, 2, [[B, 0, 5, 0, 31], [G, 5, 6, 0, 63], [R, 11, 5, 0, 31]]),
+  [TranscoderTextureFormat.cTFBGR565]: uncompressedLayout(2, 2, [[R, 0, 5, 0, 31], [G, 5, 6, 0, 63], [B, 11, 5, 0, 31]]),
+  [TranscoderTextureFormat.cTFRGBA4444]: uncompressedLayout(2, 2, [[A, 0, 4, 0, 15], [B, 4, 4, 0, 15], [G, 8, 4, 0, 15], [R, 12, 4, 0, 15]]),
+  [TranscoderTextureFormat.cTFRGB_HALF]: uncompressedLayout(6, 2, [
+    [R | HALF, 0, 16, FLOAT_MINUS_ONE, FLOAT_ONE], [G | HALF, 16, 16, FLOAT_MINUS_ONE, FLOAT_ONE], [B | HALF, 32, 16, FLOAT_MINUS_ONE, FLOAT_ONE],
+  ]),
+  [TranscoderTextureFormat.cTFRGBA_HALF]: uncompressedLayout(8, 2, [
+    [R | HALF, 0, 16, FLOAT_MINUS_ONE, FLOAT_ONE], [G | HALF, 16, 16, FLOAT_MINUS_ONE, FLOAT_ONE],
+    [B | HALF, 32, 16, FLOAT_MINUS_ONE, FLOAT_ONE], [A | HALF, 48, 16, FLOAT_MINUS_ONE, FLOAT_ONE],
+  ]),
+  // Each 9-bit mantissa is paired with the shared 5-bit exponent
+  [TranscoderTextureFormat.cTFRGB_9E5]: uncompressedLayout(4, 4, [
+    [R, 0, 9, 0, 8448], [R | EXPONENT, 27, 5, 15, 31],
+    [G, 9, 9, 0, 8448], [G | EXPONENT, 27, 5, 15, 31],
+    [B, 18, 9, 0, 8448], [B | EXPONENT, 27, 5, 15, 31],
+  ]),
+};
+
+const KTX2_IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a];
+const KTX2_HEADER_SIZE = 80;
+const KTX2_LEVEL_INDEX_ENTRY_SIZE = 24;
+const KTX2_WRITER = 'basis-universal-transcoder';
+
+function buildDataFormatDescriptor(layout: DFDLayout, srgb: boolean): Uint8Array {
+  const blockSize = 24 + layout.samples.length * 16;
+  const dfd = new Uint8Array(4 + blockSize);
+  const view = new DataView(dfd.buffer);
+  view.setUint32(0, dfd.length, true);
+  view.setUint32(4, 0, true); // Khronos vendor, basic descriptor type
+  view.setUint32(8, 2 | (blockSize << 16), true);
+  dfd[12] = layout.colorModel;
+  dfd[13] = KTX2ColorPrimaries.BT709;
+  dfd[14] = srgb ? KTX2TransferFunction.SRGB : KTX2TransferFunction.LINEAR;
+  dfd[15] = 0;
+  dfd[16] = layout.blockWidth - 1;
+  dfd[17] = layout.blockHeight - 1;
+  dfd[20] = layout.bytesPerBlock;
+  layout.samples.forEach(([channelType, bitOffset, bitLength, lower, upper], i) => {
+    const s = 28 + i * 16;
+    view.setUint16(s, bitOffset, true);
+    dfd[s + 2] = bitLength - 1;
+    // Alpha stays linear when the color channels are sRGB encoded
+    dfd[s + 3] = channelType | (srgb && (channelType & 0xf) === A && layout.colorModel === KTX2ColorModel.RGBSDA ? KHR_DF_SAMPLE_DATATYPE_LINEAR : 0);
+    view.setUint32(s + 8, lower, true);
+    view.setUint32(s + 12, upper, true);
+  });
+  return dfd;
+}
+
+function buildKeyValueData(entries: Map<string, Uint8Array | string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  // Entries are sorted by key, as the KTX2 specification requires
+  for (const key of [...entries.keys()].sort()) {
+    const value = entries.get(key)!;
+    const keyBytes = encoder.encode(key);
+    const valueBytes = typeof value === 'string' ? encoder.encode(`${value}\0`) : value;
+    const length = keyBytes.length + 1 + valueBytes.length;
+    const entry = new Uint8Array(4 + ((length + 3) & ~3));
+    new DataView(entry.buffer).setUint32(0, length, true);
+    entry.set(keyBytes, 4);
+    entry.set(valueBytes, 4 + keyBytes.length + 1);
+    parts.push(entry);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Write a KTX2 file without supercompression
+ *
+ * The data format descriptor is generated for the format, and the level data is aligned
+ * as the KTX2 specification requires. Every transcoder format except the ATC and FXT1 formats is supported.
+ *
+ * @throws Error if KTX2 has no VkFormat for the texture's format
+ */
+export function writeKTX2(texture: TranscodedTexture, options: KTX2WriterOptions = {}): Uint8Array {
+  const vkFormat = getVkFormat(texture.format, options.srgb);
+  const layout = dfdLayouts[texture.format];
+  if (vkFormat === null || !layout) {
+    throw unsupported(texture.format, 'KTX2');
+  }
+  const srgb = vkFormat !== getVkFormat(texture.format, false);
+
+  const dfd = buildDataFormatDescriptor(layout, srgb);
+  const keyValueData = new Map(options.keyValueData);
+  if (!keyValueData.has('KTXwriter')) {
+    keyValueData.set('KTXwriter', KTX2_WRITER);
+  }
+  const kvd = buildKeyValueData(keyValueData);
+
+  const levelIndexSize = texture.levelCount * KTX2_LEVEL_INDEX_ENTRY_SIZE;
+  const dfdOffset = KTX2_HEADER_SIZE + levelIndexSize;
+  const kvdOffset = dfdOffset + dfd.length;
+  // Levels start on a multiple of lcm(texel block size, 4)
+  let alignment = layout.bytesPerBlock;
+  while (alignment % 4 !== 0) {
+    alignment += layout.bytesPerBlock;
+  }
+
+  // Levels are stored smallest first, each holding its layers and faces in order
+  const levelOffsets: number[] = [];
+  const levelLengths: number[] = [];
+  let offset = kvdOffset + kvd.length;
+  for (let level = texture.levelCount - 1; level >= 0; level--) {
+    offset = Math.ceil(offset / alignment) * alignment;
+    let length = 0;
+    for (const layer of texture.images[level]) {
+      for (const image of layer) {
+        length += image.data.byteLength;
+      }
+    }
+    levelOffsets[level] = offset;
+    levelLengths[level] = length;
+    offset += length;
+  }
+
+  const out = new Uint8Array(offset);
+  const view = new DataView(out.buffer);
+  out.set(KTX2_IDENTIFIER, 0);
+  [
+    vkFormat,
+    layout.typeSize,
+    texture.width,
+    texture.height,
+    0,
+    isArrayKind(texture.kind) ? texture.layerCount : 0,
+    texture.faceCount,
+    texture.levelCount,
+    0,
+    dfdOffset,
+    dfd.length,
+    kvd.length > 0 ? kvdOffset : 0,
+    kvd.length,
+  ].forEach((value, i) => view.setUint32(12 + i * 4, value, true));
+  // sgdByteOffset and sgdByteLength stay 0
+
+  for (let level = 0; level < texture.levelCount; level++) {
+    const entry = KTX2_HEADER_SIZE + level * KTX2_LEVEL_INDEX_ENTRY_SIZE;
+    view.setUint32(entry, levelOffsets[level], true);
+    view.setUint32(entry + 8, levelLengths[level], true);
+    view.setUint32(entry + 16, levelLengths[level], true);
+    let imageOffset = levelOffsets[level];
+    for (const layer of texture.images[level]) {
+      for (const image of layer) {
+        out.set(image.data, imageOffset);
+        imageOffset += image.data.byteLength;
+      }
+    }
+  }
+  out.set(dfd, dfdOffset);
+  out.set(kvd, kvdOffset);
+  return out;
+}
+
+const PVR3_VERSION = 0x03525650; // 'PVR\x03'
+const PVR3_HEADER_SIZE = 52;
+
+/**
+ * Write a PVR v3 file
+ *
+ * Supports PVRTC1/2, ETC1, ETC2 RGBA, EAC R11/RG11, ASTC, the BC formats and the uncompressed formats.
+ *
+ * @throws Error if PVR has no pixel format for the texture's format
+ */
+export function writePVR(texture: TranscodedTexture, options: TextureWriterOptions = {}): Uint8Array {
+  const pixelFormat = pvrPixelFormats[texture.format];
+  if (!pixelFormat) {
+    throw unsupported(texture.format, 'PVR');
+  }
+
+  const header = new Uint8Array(PVR3_HEADER_SIZE);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, PVR3_VERSION, true);
+  view.setUint32(4, 0, true);
+  if ('compressed' in pixelFormat) {
+    view.setUint32(8, pixelFormat.compressed, true);
+    view.setUint32(12, 0, true);
+  } else {
+    // Channel names in the low 4 bytes, bits per channel in the high 4 bytes
+    for (let i = 0; i < pixelFormat.channels.length; i++) {
+      header[8 + i] = pixelFormat.channels.charCodeAt(i);
+      header[12 + i] = pixelFormat.bits[i];
+    }
+  }
+  view.setUint32(16, options.srgb ? 1 : 0, true);
+  view.setUint32(20, pixelFormat.channelType, true);
+  view.setUint32(24, texture.height, true);
+  view.setUint32(28, texture.width, true);
+  view.setUint32(32, 1, true);
+  view.setUint32(36, texture.layerCount, true);
+  view.setUint32(40, texture.faceCount, true);
+  view.setUint32(44, texture.levelCount, true);
+  view.setUint32(48, 0, true);
+
+  // Mip level major, then surfaces, then faces
+  const parts: Uint8Array[] = [header];
+  for (let level = 0; level < texture.levelCount; level++) {
+    for (let layer = 0; layer < texture.layerCount; layer++) {
+      for (let face = 0; face < texture.faceCount; face++) {
+        parts.push(texture.images[level][layer][face].data);
+      }
+    }
+  }
+  return concatBytes(parts);
+}
+
+const ASTC_MAGIC = 0x5ca1ab13;
+
+/**
+ * Write a .astc file, which holds a single image
+ *
+ * @param selection The image to write, level 0 of the first layer and face by default
+ * @throws Error if the texture is not ASTC or the image does not exist
+ */
+export function writeASTC(texture: TranscodedTexture, selection: TextureImageSelection = {}): Uint8Array {
+  const blockDimensions = astcBlockDimensions[texture.format];
+  if (!blockDimensions) {
+    throw unsupported(texture.format, '.astc');
+  }
+  const image = getImage(texture, selection);
+
+  const header = new Uint8Array(16);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, ASTC_MAGIC, true);
+  header[4] = blockDimensions[0];
+  header[5] = blockDimensions[1];
+  header[6] = 1;
+  // 24-bit little endian sizes
+  [image.width, image.height, 1].forEach((size, i) => {
+    header[7 + i * 3] = size & 0xff;
+    header[8 + i * 3] = (size >> 8) & 0xff;
+    header[9 + i * 3] = (size >> 16) & 0xff;
+  });
+  return concatBytes([header, image.data]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array, crc = 0xffffffff): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)) ^ 0xffffffff);
+  return chunk;
+}
+
+/**
+ * zlib stream of stored (uncompressed) deflate blocks, which needs no compressor
+ */
+function zlibStore(data: Uint8Array): Uint8Array {
+  const maxBlock = 0xffff;
+  const blockCount = Math.max(1, Math.ceil(data.length / maxBlock));
+  const out = new Uint8Array(2 + blockCount * 5 + data.length + 4);
+  const view = new DataView(out.buffer);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = data.subarray(i * maxBlock, (i + 1) * maxBlock);
+    out[offset] = i === blockCount - 1 ? 1 : 0;
+    view.setUint16(offset + 1, block.length, true);
+    view.setUint16(offset + 3, ~block.length & 0xffff, true);
+    out.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  view.setUint32(offset, adler32(data));
+  return out;
+}
+
+/**
+ * Write a PNG file, which holds a single image
+ *
+ * cTFRGBA32 is written as is, the other LDR formats are decoded with decodeToRGBA() first.
+ * The image data is stored without deflate compression, so the files are large but need no
+ * compressor; run them through a PNG optimizer if size matters.
+ *
+ * @param selection The image to write, level 0 of the first layer and face by default
+ * @throws Error if the format cannot be decoded to RGBA8 or the image does not exist
+ */
+export function writePNG(texture: TranscodedTexture, selection: TextureImageSelection = {}): Uint8Array {
+  const image = getImage(texture, selection);
+  const { width, height } = image;
+  const pixels = texture.format === TranscoderTextureFormat.cTFRGBA32 ? image.data : decodeToRGBA(image, texture.format);
+
+  // Every row starts with filter type 0 (none)
+  const rowLength = width * 4;
+  const raw = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // color type RGBA
+
+  return concatBytes([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+}
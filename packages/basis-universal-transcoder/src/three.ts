@@ -0,0 +1,405 @@
+/**
+ * three.js entry point (`@h00w/basis-universal-transcoder/three`)
+ *
+ * BasisKTX2Loader loads KTX2 files into three.js textures. It picks a target format from the
+ * renderer's capabilities, transcodes in a TranscoderWorkerPool and builds the texture with
+ * every mip level, the color space from the DFD and flipY left false.
+ */
+
+import {
+  CompressedArrayTexture,
+  CompressedCubeTexture,
+  CompressedPixelFormat,
+  CompressedTexture,
+  CubeTexture,
+  DataArrayTexture,
+  DataTexture,
+  FileLoader,
+  HalfFloatType,
+  LinearFilter,
+  LinearMipmapLinearFilter,
+  LinearSRGBColorSpace,
+  Loader,
+  LoadingManager,
+  NoColorSpace,
+  PixelFormat,
+  RED_GREEN_RGTC2_Format,
+  RED_RGTC1_Format,
+  RGB_BPTC_UNSIGNED_Format,
+  RGB_ETC1_Format,
+  RGB_ETC2_Format,
+  RGB_PVRTC_4BPPV1_Format,
+  RGB_S3TC_DXT1_Format,
+  RGBA_ASTC_4x4_Format,
+  RGBA_ASTC_6x6_Format,
+  RGBA_BPTC_Format,
+  RGBA_ETC2_EAC_Format,
+  RGBA_PVRTC_4BPPV1_Format,
+  RGBA_S3TC_DXT5_Format,
+  RGBAFormat,
+  RGBFormat,
+  REVISION,
+  SRGBColorSpace,
+  Texture,
+  TextureDataType,
+  UnsignedByteType,
+  UnsignedInt5999Type,
+  UnsignedShort4444Type,
+  WebGLRenderer,
+} from 'three';
+import {
+  getFormatName,
+  getWebGLCapabilities,
+  getWebGPUCapabilities,
+  parseKTX2Container,
+  TextureCapabilities,
+  TextureKind,
+  TranscodedTexture,
+  TranscoderTextureFormat,
+  TranscoderWorkerLike,
+  TranscoderWorkerPool,
+} from './index.js';
+
+export interface ThreeTextureFormat {
+  format: PixelFormat | CompressedPixelFormat;
+  type: TextureDataType;
+  /** true for CompressedTexture formats, false for DataTexture formats */
+  compressed: boolean;
+}
+
+// R11_EAC_Format and RG11_EAC_Format, exported and uploadable since three.js r182
+const R11_EAC_FORMAT: number = 0x9270;
+const RG11_EAC_FORMAT: number = 0x9272;
+const hasEACFormats = parseInt(REVISION, 10) >= 182;
+
+const compressedFormats: Partial<Record<TranscoderTextureFormat, CompressedPixelFormat>> = {
+  [TranscoderTextureFormat.cTFETC1_RGB]: RGB_ETC1_Format,
+  [TranscoderTextureFormat.cTFETC2_RGBA]: RGBA_ETC2_EAC_Format,
+  [TranscoderTextureFormat.cTFETC2_EAC_R11]: R11_EAC_FORMAT as CompressedPixelFormat,
+  [TranscoderTextureFormat.cTFETC2_EAC_RG11]: RG11_EAC_FORMAT as CompressedPixelFormat,
+  [TranscoderTextureFormat.cTFBC1_RGB]: RGB_S3TC_DXT1_Format,
+  [TranscoderTextureFormat.cTFBC3_RGBA]: RGBA_S3TC_DXT5_Format,
+  [TranscoderTextureFormat.cTFBC4_R]: RED_RGTC1_Format,
+  [TranscoderTextureFormat.cTFBC5_RG]: RED_GREEN_RGTC2_Format,
+  [TranscoderTextureFormat.cTFBC7_RGBA]: RGBA_BPTC_Format,
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGB]: RGB_PVRTC_4BPPV1_Format,
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGBA]: RGBA_PVRTC_4BPPV1_Format,
+  [TranscoderTextureFormat.cTFASTC_4x4_RGBA]: RGBA_ASTC_4x4_Format,
+};
+
+/** HDR formats, uploaded as half float textures */
+const compressedHDRFormats: Partial<Record<TranscoderTextureFormat, CompressedPixelFormat>> = {
+  [TranscoderTextureFormat.cTFBC6H]: RGB_BPTC_UNSIGNED_Format,
+  [TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA]: RGBA_ASTC_4x4_Format,
+  [TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA]: RGBA_ASTC_6x6_Format,
+};
+
+/**
+ * three.js format and type for a transcoder format
+ *
+ * PVRTC2, ATC, FXT1, RGB565, BGR565 and RGB half float have no three.js equivalent,
+ * EAC R11/RG11 need three.js r182 or later.
+ *
+ * @param format Transcoder output format
+ * @param capabilities Renderer capabilities. Without etc1, ETC1 data is uploaded as ETC2 RGB, which it is valid data for.
+ * @returns The format and type, or null if three.js cannot upload the format
+ */
+export function getThreeTextureFormat(
+  format: TranscoderTextureFormat,
+  capabilities?: TextureCapabilities
+): ThreeTextureFormat | null {
+  if (format === TranscoderTextureFormat.cTFETC1_RGB && capabilities && !capabilities.etc1) {
+    return { format: RGB_ETC2_Format, type: UnsignedByteType, compressed: true };
+  }
+  const compressed = compressedFormats[format];
+  if (compressed === R11_EAC_FORMAT || compressed === RG11_EAC_FORMAT) {
+    return hasEACFormats ? { format: compressed, type: UnsignedByteType, compressed: true } : null;
+  }
+  if (compressed !== undefined) {
+    return { format: compressed, type: UnsignedByteType, compressed: true };
+  }
+  const compressedHDR = compressedHDRFormats[format];
+  if (compressedHDR !== undefined) {
+    return { format: compressedHDR, type: HalfFloatType, compressed: true };
+  }
+  switch (format) {
+    case TranscoderTextureFormat.cTFRGBA32:
+      return { format: RGBAFormat, type: UnsignedByteType, compressed: false };
+    case TranscoderTextureFormat.cTFRGBA4444:
+      return { format: RGBAFormat, type: UnsignedShort4444Type, compressed: false };
+    case TranscoderTextureFormat.cTFRGBA_HALF:
+      return { format: RGBAFormat, type: HalfFloatType, compressed: false };
+    case TranscoderTextureFormat.cTFRGB_9E5:
+      return { format: RGBFormat, type: UnsignedInt5999Type, compressed: false };
+    default:
+      return null;
+  }
+}
+
+export interface CreateThreeTextureOptions {
+  /** The color data is sRGB encoded, see KTX2DataFormatDescriptor.isSRGB. Default false. */
+  srgb?: boolean;
+  /** The color data is premultiplied by alpha, see KTX2DataFormatDescriptor.isPremultiplied. Default false. */
+  premultipliedAlpha?: boolean;
+  /** Renderer capabilities, see getThreeTextureFormat() */
+  capabilities?: TextureCapabilities;
+}
+
+function isHDRFormat(format: TranscoderTextureFormat): boolean {
+  return compressedHDRFormats[format] !== undefined ||
+    format === TranscoderTextureFormat.cTFRGBA_HALF ||
+    format === TranscoderTextureFormat.cTFRGB_9E5;
+}
+
+/**
+ * DataTexture data must be typed by the texture type and backed by an ArrayBuffer
+ */
+function toTypedData(
+  data: Uint8Array,
+  type: TextureDataType
+): Uint8Array<ArrayBuffer> | Uint16Array<ArrayBuffer> | Uint32Array<ArrayBuffer> {
+  const bytes = data.buffer instanceof ArrayBuffer ? data as Uint8Array<ArrayBuffer> : new Uint8Array(data);
+  switch (type) {
+    case HalfFloatType:
+    case UnsignedShort4444Type:
+      return new Uint16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
+    case UnsignedInt5999Type:
+      return new Uint32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+    default:
+      return bytes;
+  }
+}
+
+function concatLayers(images: Uint8Array[]): Uint8Array {
+  const data = new Uint8Array(images.reduce((sum, image) => sum + image.byteLength, 0));
+  let offset = 0;
+  for (const image of images) {
+    data.set(image, offset);
+    offset += image.byteLength;
+  }
+  return data;
+}
+
+/**
+ * Build a three.js texture from a transcoded texture
+ *
+ * Compressed formats give a CompressedTexture, CompressedArrayTexture or CompressedCubeTexture
+ * with every mip level. Uncompressed fallbacks give a DataTexture with every mip level, or a
+ * DataArrayTexture or CubeTexture with level 0 only, since three.js uploads no mip chain for those.
+ *
+ * KTX2 stores the top row first, as glTF does, so flipY is false; compressed data cannot be flipped on upload.
+ *
+ * @throws Error if three.js cannot upload the format, or the texture is a cubemap array
+ */
+export function createThreeTexture(texture: TranscodedTexture, options: CreateThreeTextureOptions = {}): Texture {
+  const info = getThreeTextureFormat(texture.format, options.capabilities);
+  if (!info) {
+    throw new Error(`${getFormatName(texture.format)} has no three.js texture format.`);
+  }
+  const { format, type, compressed } = info;
+  const { width, height, layerCount, faceCount } = texture;
+  const mipmaps = (layer: number, face: number) => texture.images.map((layers) => {
+    const image = layers[layer][face];
+    // Compressed data stays bytes, whatever the texture type
+    return { data: toTypedData(image.data, compressed ? UnsignedByteType : type), width: image.width, height: image.height };
+  });
+  const faces = Array.from({ length: faceCount }, (_, face) => face);
+
+  let result: Texture;
+  let levelCount = texture.levelCount;
+  switch (texture.kind) {
+    case TextureKind.Texture2D:
+      if (compressed) {
+        result = new CompressedTexture(mipmaps(0, 0), width, height, format as CompressedPixelFormat, type);
+      } else {
+        const levels = mipmaps(0, 0);
+        result = new DataTexture(levels[0].data, width, height, format as PixelFormat, type);
+        result.mipmaps = levels;
+      }
+      break;
+
+    case TextureKind.Texture2DArray:
+      if (compressed) {
+        // One mip per level, holding every layer
+        const levels = texture.images.map((layers) => ({
+          data: concatLayers(layers.map((faceImages) => faceImages[0].data)),
+          width: layers[0][0].width,
+          height: layers[0][0].height,
+        }));
+        result = new CompressedArrayTexture(levels, width, height, layerCount, format as CompressedPixelFormat, type);
+      } else {
+        const data = concatLayers(texture.images[0].map((faceImages) => faceImages[0].data));
+        result = new DataArrayTexture(toTypedData(data, type), width, height, layerCount);
+        result.format = format as PixelFormat;
+        result.type = type;
+        levelCount = 1;
+      }
+      break;
+
+    case TextureKind.Cubemap:
+      if (compressed) {
+        result = new CompressedCubeTexture(
+          faces.map((face) => ({ width, height, format, type, mipmaps: mipmaps(0, face) })),
+          format as CompressedPixelFormat,
+          type
+        );
+      } else {
+        result = new CubeTexture(faces.map((face) => {
+          const level = mipmaps(0, face)[0];
+          return new DataTexture(level.data, width, height, format as PixelFormat, type);
+        }), undefined, undefined, undefined, undefined, undefined, format as PixelFormat, type);
+        levelCount = 1;
+      }
+      break;
+
+    default:
+      throw new Error('three.js has no cubemap array textures.');
+  }
+
+  result.colorSpace = options.srgb ? SRGBColorSpace : isHDRFormat(texture.format) ? LinearSRGBColorSpace : NoColorSpace;
+  result.premultiplyAlpha = options.premultipliedAlpha ?? false;
+  result.flipY = false;
+  result.generateMipmaps = false;
+  result.minFilter = levelCount > 1 ? LinearMipmapLinearFilter : LinearFilter;
+  result.magFilter = LinearFilter;
+  result.needsUpdate = true;
+  return result;
+}
+
+/**
+ * The part of three.js WebGPURenderer used by detectSupport()
+ */
+export interface ThreeWebGPURendererLike {
+  readonly isWebGPURenderer: true;
+  hasFeature(name: string): boolean;
+}
+
+/**
+ * three.js loader for KTX2 files, transcoding in workers
+ *
+ * ```ts
+ * const loader = new BasisKTX2Loader()
+ *   .setWorkerFactory(() => new Worker(new URL('./transcoder.worker.ts', import.meta.url), { type: 'module' }))
+ *   .setWasmModule(await WebAssembly.compileStreaming(fetch(wasmUrl)))
+ *   .detectSupport(renderer);
+ * const texture = await loader.loadAsync('texture.ktx2');
+ * ```
+ */
+export class BasisKTX2Loader extends Loader<Texture> {
+  private createWorker: (() => TranscoderWorkerLike) | null = null;
+  private workerLimit: number | undefined;
+  private wasmModule: WebAssembly.Module | undefined;
+  private capabilities: TextureCapabilities | null = null;
+  private pool: TranscoderWorkerPool | null = null;
+
+  constructor(manager?: LoadingManager) {
+    super(manager);
+  }
+
+  /**
+   * Set how workers are created, each running exposeTranscoderWorker()
+   */
+  setWorkerFactory(createWorker: () => TranscoderWorkerLike): this {
+    this.createWorker = createWorker;
+    return this;
+  }
+
+  /**
+   * Maximum number of workers, see TranscoderWorkerPoolOptions.concurrency
+   */
+  setWorkerLimit(limit: number): this {
+    this.workerLimit = limit;
+    return this;
+  }
+
+  /**
+   * Compiled transcoder WASM module shared with every worker
+   */
+  setWasmModule(wasmModule: WebAssembly.Module): this {
+    this.wasmModule = wasmModule;
+    return this;
+  }
+
+  /**
+   * Read the compressed formats the renderer supports. Must be called before loading.
+   */
+  detectSupport(renderer: WebGLRenderer | ThreeWebGPURendererLike): this {
+    if ('isWebGPURenderer' in renderer && renderer.isWebGPURenderer) {
+      this.capabilities = getWebGPUCapabilities({ features: { has: (feature) => renderer.hasFeature(feature) } });
+    } else {
+      this.capabilities = getWebGLCapabilities((renderer as WebGLRenderer).getContext());
+    }
+    return this;
+  }
+
+  load(
+    url: string,
+    onLoad: (texture: Texture) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (error: unknown) => void
+  ): void {
+    const loader = new FileLoader(this.manager);
+    loader.setPath(this.path);
+    loader.setResponseType('arraybuffer');
+    loader.setRequestHeader(this.requestHeader);
+    loader.setWithCredentials(this.withCredentials);
+    loader.load(url, (buffer) => {
+      this.parse(buffer as ArrayBuffer).then(onLoad, (error) => {
+        if (onError) {
+          onError(error);
+        } else {
+          console.error(error);
+        }
+        this.manager.itemError(url);
+      });
+    }, onProgress, onError);
+  }
+
+  /**
+   * Transcode a KTX2 file and build its texture
+   *
+   * @param data KTX2 file data, copied to the worker
+   */
+  async parse(data: ArrayBuffer | Uint8Array): Promise<Texture> {
+    if (!this.capabilities) {
+      throw new Error('BasisKTX2Loader: call detectSupport(renderer) before loading.');
+    }
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const { header, dataFormatDescriptor } = parseKTX2Container(bytes);
+    if (!header || !header.hasValidIdentifier) {
+      throw new Error('BasisKTX2Loader: not a KTX2 file.');
+    }
+
+    // three.js has no RGB565 textures, so the 16-bit fallback is never selected
+    const texture = await this.getPool().transcode(bytes, {
+      capabilities: this.capabilities,
+      preferences: { lowMemoryFallback: false },
+    });
+    return createThreeTexture(texture, {
+      capabilities: this.capabilities,
+      srgb: dataFormatDescriptor?.isSRGB ?? false,
+      premultipliedAlpha: dataFormatDescriptor?.isPremultiplied ?? false,
+    });
+  }
+
+  /**
+   * Terminate the workers. The loader creates new ones if it is used again.
+   */
+  dispose(): this {
+    this.pool?.terminate();
+    this.pool = null;
+    return this;
+  }
+
+  private getPool(): TranscoderWorkerPool {
+    if (!this.createWorker) {
+      throw new Error('BasisKTX2Loader: call setWorkerFactory() with a worker running exposeTranscoderWorker().');
+    }
+    this.pool ??= new TranscoderWorkerPool({
+      createWorker: this.createWorker,
+      concurrency: this.workerLimit,
+      wasmModule: this.wasmModule,
+    });
+    return this.pool;
+  }
+}
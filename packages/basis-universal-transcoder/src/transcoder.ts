@@ -1,9 +1,22 @@
 import { BasisModuleFuncs } from './index';
 import {
   BasisTextureFormat,
+  TextureKind,
+  TranscodedImage,
+  TranscodedTexture,
+  TranscodeIntoResult,
   TranscodeOptions,
-  TranscodeResult
+  TranscodeResult,
+  TranscodeTarget,
+  TranscoderTextureFormat
 } from './types';
+import { KTX2KeyValueData, parseKTX2KeyValueData } from './key-value-data';
+import { KTX2DataFormatDescriptor, parseKTX2DataFormatDescriptor } from './data-format-descriptor';
+import { TranscodeError, TranscodeErrorCode, TranscodeErrorContext } from './errors';
+import { getDecodeFlags, validateDecodeFlags } from './decode-flags';
+import { validateChannels } from './channels';
+import { getFormatName } from './utils';
+import { KTX2_HEADER_BYTE_LENGTH, KTX2HeaderInfo, KTX2SupercompressionScheme, parseKTX2Header } from './ktx2-header';
 
 export class KTX2Transcoder {
   private readonly imageLevelInfo = new KTX2ImageLevelInfo();
@@ -11,6 +24,7 @@ export class KTX2Transcoder {
   private readonly header = new KTX2Header();
   private inputMemPtr = 0;
   private inputMemSize = 0;
+  private inputDataSize = 0;
   private outputMemPtr = 0;
   private outputMemSize = 0;
   private initialized = false;
@@ -31,28 +45,41 @@ export class KTX2Transcoder {
    * @returns true if initialization succeeded, false otherwise
    */
   init(data: Uint8Array): boolean {
-    this.checkDisposed();
+    return this.initInternal(data) === null;
+  }
 
-    // free output
-    this.funcs.free(this.outputMemPtr);
-    this.outputMemPtr = 0;
-    this.outputMemSize = 0;
-  
-    // Allocate memory
-    if (this.inputMemSize < data.length) {
-      this.funcs.free(this.inputMemPtr);
-      this.inputMemPtr = this.funcs.malloc(data.length);
-      this.inputMemSize = data.length;
+  /**
+   * Same as init(), but throws a TranscodeError describing why the file was rejected
+   * (INVALID_HEADER, CORRUPT_FILE, ZSTD_NOT_SUPPORTED, UNSUPPORTED_SUPERCOMPRESSION or ALLOCATION_FAILED).
+   *
+   * @param data KTX2 file data as Uint8Array
+   */
+  initOrThrow(data: Uint8Array): void {
+    const error = this.initInternal(data);
+    if (error) {
+      throw error;
     }
+  }
 
-    // Copy data
-    this.funcs.heap.subarray(this.inputMemPtr, this.inputMemPtr + data.length).set(data);
-
-    // Initialize the transcoder
-    const success = this.funcs.ktx2_transcoder_init(this.transcoderPtr, this.inputMemPtr, data.length);
-    this.initialized = success;
-
-    return success;
+  /**
+   * Overwrite part of the KTX2 file passed to init(), e.g. mip level data that arrived later.
+   * Valid after init().
+   *
+   * Level data is read when transcoding, so the new bytes are used without calling init() again.
+   * The header, level index, DFD, key/value data and supercompression global data must not be
+   * changed this way, the transcoder parsed them in init() and startTranscoding().
+   *
+   * @param byteOffset Offset in the file
+   * @param data Bytes to write
+   * @throws Error if the range is outside the file
+   */
+  writeFileBytes(byteOffset: number, data: Uint8Array): void {
+    this.checkDisposed();
+    this.checkInitialized();
+    if (!(Number.isInteger(byteOffset) && byteOffset >= 0 && byteOffset + data.length <= this.inputDataSize)) {
+      throw new Error(`Cannot write ${data.length} bytes at offset ${byteOffset} of a ${this.inputDataSize} byte file.`);
+    }
+    this.funcs.heap.set(data, this.inputMemPtr + byteOffset);
   }
 
   /**
@@ -61,7 +88,7 @@ export class KTX2Transcoder {
    * ⚠️ IMPORTANT: The returned KTX2Header references WASM-managed memory.
    * Calling other methods (init, transcodeImageLevel, getImageLevelInfo, etc.)
    * may cause WASM heap reallocation, invalidating the header's internal buffer.
-   * Read header properties immediately after calling this method.
+   * Read header properties immediately after calling this method, or use getHeaderInfo().
    */
   getHeader() {
     this.checkDisposed();
@@ -72,6 +99,41 @@ export class KTX2Transcoder {
     return header;
   }
 
+  /**
+   * Returns a snapshot of every KTX2 header field. Valid after init().
+   *
+   * Unlike getHeader(), the result is a frozen plain object that does not reference
+   * the WASM heap, so it can be kept around and serialized.
+   */
+  getHeaderInfo(): KTX2HeaderInfo {
+    this.checkDisposed();
+    this.checkInitialized();
+    const ptr = this.funcs.ktx2_transcoder_get_header(this.transcoderPtr);
+    return parseKTX2Header(this.funcs.heap.slice(ptr, ptr + KTX2_HEADER_BYTE_LENGTH))!;
+  }
+
+  /**
+   * Returns the KTX2 key/value data (KTXorientation, KTXwriter, KTXswizzle, KTXanimData and custom keys).
+   * Valid after init().
+   *
+   * The values are copied out of the WASM heap and stay valid after further calls.
+   */
+  getKeyValueData(): KTX2KeyValueData {
+    const header = this.getHeader();
+    const kvd = this.getFileBytes(header.kvdByteOffset, header.kvdByteLength);
+    return kvd ? parseKTX2KeyValueData(kvd) : new KTX2KeyValueData();
+  }
+
+  /**
+   * Returns the decoded Data Format Descriptor (color model, primaries, transfer function,
+   * flags and samples), or null if the DFD has no basic descriptor block. Valid after init().
+   */
+  getDataFormatDescriptor(): KTX2DataFormatDescriptor | null {
+    const header = this.getHeader();
+    const dfd = this.getFileBytes(header.dfdByteOffset, header.dfdByteLength);
+    return dfd ? parseKTX2DataFormatDescriptor(dfd) : null;
+  }
+
   /**
    * Get the basis texture format
    */
@@ -104,6 +166,16 @@ export class KTX2Transcoder {
     return this.funcs.ktx2_transcoder_start_transcoding(this.transcoderPtr);
   }
 
+  /**
+   * Same as startTranscoding(), but throws a TranscodeError (START_TRANSCODING_FAILED) on failure
+   */
+  startTranscodingOrThrow(): void {
+    if (!this.startTranscoding()) {
+      throw new TranscodeError(TranscodeErrorCode.StartTranscodingFailed,
+        'Failed to start transcoding, the supercompressed global data is probably corrupt.');
+    }
+  }
+
   /**
    * Transcode an image level
    *
@@ -115,26 +187,188 @@ export class KTX2Transcoder {
    * immediately after this call.
    *
    * @param options Transcoding options including format, level, layer, face
+   * @param state Decoder state carried between calls, needed to decode ETC1S texture video P-frames in sequence
    * @returns TranscodeResult with image data, or null if transcoding failed
    */
-  transcodeImageLevel(options: TranscodeOptions): TranscodeResult | null {
-    this.checkDisposed();
-    this.checkInitialized();
+  transcodeImageLevel(options: TranscodeOptions, state?: KTX2TranscoderState): TranscodeResult | null {
+    const result = this.transcodeImageLevelInternal(options, state);
+    return result instanceof TranscodeError ? null : result;
+  }
 
-    const {
-      format,
-      level = 0,
-      layer = 0,
-      face = 0,
-      decodeFlags = 0
-    } = options;
+  /**
+   * Same as transcodeImageLevel(), but throws a TranscodeError on failure.
+   *
+   * The level, layer and face indices are validated against the header and the target format
+   * against the source format before anything is transcoded, so the error code tells an
+   * out-of-range index (LEVEL/LAYER/FACE_OUT_OF_RANGE) apart from a format this build cannot
+   * produce (UNSUPPORTED_FORMAT), a failed allocation (ALLOCATION_FAILED) and corrupt image data
+   * (TRANSCODE_FAILED).
+   *
+   * ⚠️ IMPORTANT: Like transcodeImageLevel(), the returned data references WASM-managed memory.
+   *
+   * @param options Transcoding options including format, level, layer, face
+   * @param state Decoder state carried between calls, see transcodeImageLevel()
+   */
+  transcodeImageLevelOrThrow(options: TranscodeOptions, state?: KTX2TranscoderState): TranscodeResult {
+    const result = this.transcodeImageLevelInternal(options, state);
+    if (result instanceof TranscodeError) {
+      throw result;
+    }
+    return result;
+  }
 
-    const imageLevelInfo = this.imageLevelInfo;
-    if (!imageLevelInfo.fill(this.funcs, this.transcoderPtr, level, layer, face)) {
+  /**
+   * Transcode an image level into a caller-provided destination, for example a texture atlas
+   * page or a preallocated staging buffer, at a given row pitch.
+   *
+   * With an `allocation` target the transcoder writes straight into caller-owned WASM memory.
+   * With a `buffer` target the image is copied row by row into the ArrayBuffer or
+   * SharedArrayBuffer, leaving the bytes between rows untouched.
+   *
+   * @param options Transcoding options including format, level, layer, face
+   * @param target Destination and layout
+   * @returns The written layout, or null if transcoding failed or the target is too small
+   */
+  transcodeImageLevelInto(options: TranscodeOptions, target: TranscodeTarget): TranscodeIntoResult | null {
+    const result = this.transcodeImageLevelIntoInternal(options, target);
+    return result instanceof TranscodeError ? null : result;
+  }
+
+  /**
+   * Same as transcodeImageLevelInto(), but throws a TranscodeError on failure (INVALID_TARGET for bad destinations)
+   *
+   * @param options Transcoding options including format, level, layer, face
+   * @param target Destination and layout
+   */
+  transcodeImageLevelIntoOrThrow(options: TranscodeOptions, target: TranscodeTarget): TranscodeIntoResult {
+    const result = this.transcodeImageLevelIntoInternal(options, target);
+    if (result instanceof TranscodeError) {
+      throw result;
+    }
+    return result;
+  }
+
+  /**
+   * Transcode every mip level, array layer and cubemap face of the texture.
+   * Calls startTranscoding() itself.
+   *
+   * Unlike transcodeImageLevel(), every image holds an owned copy of its data.
+   *
+   * @param format Target format
+   * @param options Transcoding options applied to every image
+   * @returns The transcoded texture, or null if any image failed to transcode
+   */
+  transcodeAll(
+    format: TranscoderTextureFormat,
+    options: Omit<TranscodeOptions, 'format' | 'level' | 'layer' | 'face'> = {}
+  ): TranscodedTexture | null {
+    if (!this.startTranscoding()) {
       return null;
     }
-    const origWidth = imageLevelInfo.origWidth;
-    const origHeight = imageLevelInfo.origHeight;
+
+    const header = this.getHeader();
+    const width = header.width;
+    const height = header.height;
+    const levelCount = Math.max(1, header.levels);
+    const layerCount = Math.max(1, header.layers);
+    const faceCount = header.faces;
+    const isArray = header.layers > 0;
+    let kind: TextureKind;
+    if (faceCount === 6) {
+      kind = isArray ? TextureKind.CubemapArray : TextureKind.Cubemap;
+    } else {
+      kind = isArray ? TextureKind.Texture2DArray : TextureKind.Texture2D;
+    }
+
+    const images: TranscodedImage[][][] = [];
+    let byteLength = 0;
+    for (let level = 0; level < levelCount; level++) {
+      const layers: TranscodedImage[][] = [];
+      for (let layer = 0; layer < layerCount; layer++) {
+        const faces: TranscodedImage[] = [];
+        for (let face = 0; face < faceCount; face++) {
+          const result = this.transcodeImageLevel({ ...options, format, level, layer, face });
+          if (!result) {
+            return null;
+          }
+          const data = result.data.slice();
+          byteLength += data.byteLength;
+          faces.push({ level, layer, face, width: result.width, height: result.height, data });
+        }
+        layers.push(faces);
+      }
+      images.push(layers);
+    }
+
+    return { format, kind, width, height, levelCount, layerCount, faceCount, images, byteLength };
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+
+    // A disposed BasisUniversal takes its heap along, nothing left to free
+    if (!this.funcs.disposed) {
+      if (this.transcoderPtr) {
+        this.funcs.ktx2_transcoder_delete(this.transcoderPtr);
+      }
+      this.funcs.free(this.inputMemPtr);
+      this.funcs.free(this.outputMemPtr);
+    }
+
+    this.transcoderPtr = 0;
+    this.inputMemPtr = 0;
+    this.inputMemSize = 0;
+    this.inputDataSize = 0;
+    this.outputMemPtr = 0;
+    this.outputMemSize = 0;
+
+    this.initialized = false;
+    this.disposed = true;
+  }
+
+  private initInternal(data: Uint8Array): TranscodeError | null {
+    this.checkDisposed();
+
+    // free output
+    this.funcs.free(this.outputMemPtr);
+    this.outputMemPtr = 0;
+    this.outputMemSize = 0;
+  
+    // Allocate memory
+    if (this.inputMemSize < data.length) {
+      this.funcs.free(this.inputMemPtr);
+      this.inputMemPtr = this.funcs.malloc(data.length);
+      this.inputMemSize = this.inputMemPtr ? data.length : 0;
+    }
+    if (!this.inputMemPtr) {
+      this.inputDataSize = 0;
+      this.initialized = false;
+      return new TranscodeError(TranscodeErrorCode.AllocationFailed,
+        `Failed to allocate ${data.length} bytes for the KTX2 file in the WASM heap.`);
+    }
+
+    // Copy data
+    this.funcs.heap.subarray(this.inputMemPtr, this.inputMemPtr + data.length).set(data);
+    this.inputDataSize = data.length;
+
+    // Initialize the transcoder
+    const success = this.funcs.ktx2_transcoder_init(this.transcoderPtr, this.inputMemPtr, data.length);
+    this.initialized = success;
+
+    return success ? null : diagnoseInitFailure(data);
+  }
+
+  private transcodeImageLevelInternal(options: TranscodeOptions, state?: KTX2TranscoderState): TranscodeResult | TranscodeError {
+    const prepared = this.prepareTranscode(options, state);
+    if (prepared instanceof TranscodeError) {
+      return prepared;
+    }
+    const { format, origWidth, origHeight, context } = prepared;
 
     // Calculate output size
     const outputSize = this.funcs.basis_compute_transcoded_image_size_in_bytes(format, origWidth, origHeight);
@@ -143,76 +377,327 @@ export class KTX2Transcoder {
     if (this.outputMemSize < outputSize) {
       this.funcs.free(this.outputMemPtr);
       this.outputMemPtr = this.funcs.malloc(outputSize);
-      this.outputMemSize = outputSize;
+      this.outputMemSize = this.outputMemPtr ? outputSize : 0;
+      if (!this.outputMemPtr) {
+        return new TranscodeError(TranscodeErrorCode.AllocationFailed,
+          `Failed to allocate ${outputSize} bytes for the transcoded image in the WASM heap.`, context);
+      }
     }
 
     const uncompressed = this.funcs.basis_transcoder_format_is_uncompressed(format);
+    const error = uncompressed
+      ? this.runTranscode(prepared, this.outputMemPtr, origWidth * origHeight, origWidth, origHeight)
+      : this.runTranscode(prepared, this.outputMemPtr, outputSize / this.funcs.basis_get_bytes_per_block_or_pixel(format), 0, 0);
+    if (error) {
+      return error;
+    }
 
-    let args: Parameters<typeof this.funcs.ktx2_transcoder_transcode_image_level>;
+    return {
+      data: this.funcs.heap.subarray(this.outputMemPtr, this.outputMemPtr + outputSize),
+      width: origWidth,
+      height: origHeight,
+    };
+  }
+
+  private transcodeImageLevelIntoInternal(options: TranscodeOptions, target: TranscodeTarget): TranscodeIntoResult | TranscodeError {
+    const prepared = this.prepareTranscode(options);
+    if (prepared instanceof TranscodeError) {
+      return prepared;
+    }
+    const { format, origWidth, origHeight, context } = prepared;
+    const invalidTarget = (message: string) => new TranscodeError(TranscodeErrorCode.InvalidTarget, message, context);
+
+    // Natural layout of the image, in blocks or pixels
+    const bytesPerUnit = this.funcs.basis_get_bytes_per_block_or_pixel(format);
+    const uncompressed = this.funcs.basis_transcoder_format_is_uncompressed(format);
+    const isPVRTC1 = format === TranscoderTextureFormat.cTFPVRTC1_4_RGB || format === TranscoderTextureFormat.cTFPVRTC1_4_RGBA;
+    let unitsPerRow: number;
+    let rowCount: number;
     if (uncompressed) {
-      args = [
-        this.transcoderPtr, level, layer, face,
-        this.outputMemPtr, origWidth * origHeight, format,
-        decodeFlags, origWidth, origHeight, -1, -1, 0];
+      unitsPerRow = origWidth;
+      rowCount = origHeight;
+    } else if (isPVRTC1) {
+      // PVRTC1 blocks are stored in twiddled order, the image is a single span
+      unitsPerRow = this.funcs.basis_compute_transcoded_image_size_in_bytes(format, origWidth, origHeight) / bytesPerUnit;
+      rowCount = 1;
     } else {
-      const bytesPerBlock = this.funcs.basis_get_bytes_per_block_or_pixel(format);
-      args = [
-        this.transcoderPtr, level, layer, face,
-        this.outputMemPtr, outputSize / bytesPerBlock, format,
-        decodeFlags, 0, 0, -1, -1, 0];
+      const [blockWidth, blockHeight] = getTargetBlockDimensions(format);
+      unitsPerRow = Math.ceil(origWidth / blockWidth);
+      rowCount = Math.ceil(origHeight / blockHeight);
     }
 
-    // Transcode
-    const success = this.funcs.ktx2_transcoder_transcode_image_level(...args);
+    const { byteOffset = 0, rowPitch = unitsPerRow, rows = rowCount } = target;
+    if (isPVRTC1 && target.rowPitch !== undefined && target.rowPitch !== unitsPerRow) {
+      return invalidTarget('PVRTC1 does not support a custom row pitch.');
+    }
+    if (!Number.isInteger(byteOffset) || byteOffset < 0) {
+      return invalidTarget(`Invalid byte offset ${byteOffset}.`);
+    }
+    if (!Number.isInteger(rowPitch) || rowPitch < unitsPerRow) {
+      return invalidTarget(`Row pitch ${rowPitch} is smaller than the image row of ${unitsPerRow} ${uncompressed ? 'pixels' : 'blocks'}.`);
+    }
+    if (!Number.isInteger(rows) || rows < rowCount) {
+      return invalidTarget(`${rows} rows are fewer than the image's ${rowCount}.`);
+    }
+    const byteLength = ((rowCount - 1) * rowPitch + unitsPerRow) * bytesPerUnit;
 
-    if (!success) {
-      return null;
+    if ('allocation' in target) {
+      const allocation = target.allocation;
+      if (!allocation.belongsTo(this.funcs)) {
+        return invalidTarget('The allocation belongs to a different BasisUniversal instance.');
+      }
+      // The transcoder requires room for every row at the full pitch
+      const required = rows * rowPitch * bytesPerUnit;
+      if (byteOffset + required > allocation.byteLength) {
+        return invalidTarget(`The target needs ${required} bytes at offset ${byteOffset}, the allocation has ${allocation.byteLength}.`);
+      }
+      const outputPtr = allocation.byteOffset + byteOffset;
+      const error = uncompressed
+        ? this.runTranscode(prepared, outputPtr, rows * rowPitch, rowPitch, rows)
+        : this.runTranscode(prepared, outputPtr, rows * rowPitch, isPVRTC1 ? 0 : rowPitch, 0);
+      if (error) {
+        return error;
+      }
+    } else {
+      const buffer = target.buffer;
+      if (byteOffset + byteLength > buffer.byteLength) {
+        return invalidTarget(`The target needs ${byteLength} bytes at offset ${byteOffset}, the buffer has ${buffer.byteLength}.`);
+      }
+      const result = this.transcodeImageLevelInternal(options);
+      if (result instanceof TranscodeError) {
+        return result;
+      }
+      // Copy row by row, the bytes between rows belong to the caller
+      const destination = new Uint8Array(buffer);
+      const rowBytes = unitsPerRow * bytesPerUnit;
+      const pitchBytes = rowPitch * bytesPerUnit;
+      for (let row = 0; row < rowCount; row++) {
+        destination.set(result.data.subarray(row * rowBytes, (row + 1) * rowBytes), byteOffset + row * pitchBytes);
+      }
     }
 
-    return {
-      data: this.funcs.heap.subarray(this.outputMemPtr, this.outputMemPtr + outputSize),
-      width: origWidth,
-      height: origHeight,
-    };
+    return { width: origWidth, height: origHeight, rowPitch, rows: rowCount, byteLength };
   }
 
   /**
-   * Clean up resources
+   * Validate transcode options against the file and read the image size
    */
-  dispose(): void {
-    if (this.disposed) {
-      return;
+  private prepareTranscode(options: TranscodeOptions, state?: KTX2TranscoderState): PreparedTranscode | TranscodeError {
+    this.checkDisposed();
+    this.checkInitialized();
+
+    const {
+      format,
+      level = 0,
+      layer = 0,
+      face = 0,
+      channels
+    } = options;
+    const decodeFlags = getDecodeFlags(options);
+    const context = { level, layer, face, format };
+    const statePtr = state ? state.ptr : 0;
+
+    const header = this.getHeader();
+    const levelCount = Math.max(1, header.levels);
+    const layerCount = Math.max(1, header.layers);
+    const faceCount = header.faces;
+    if (!(level >= 0 && level < levelCount)) {
+      return new TranscodeError(TranscodeErrorCode.LevelOutOfRange,
+        `Level ${level} is out of range, the texture has ${levelCount} level(s).`, context);
+    }
+    if (!(layer >= 0 && layer < layerCount)) {
+      return new TranscodeError(TranscodeErrorCode.LayerOutOfRange,
+        `Layer ${layer} is out of range, the texture has ${layerCount} layer(s).`, context);
+    }
+    if (!(face >= 0 && face < faceCount)) {
+      return new TranscodeError(TranscodeErrorCode.FaceOutOfRange,
+        `Face ${face} is out of range, the texture has ${faceCount} face(s).`, context);
     }
 
-    if (this.transcoderPtr) {
-      this.funcs.ktx2_transcoder_delete(this.transcoderPtr);
-      this.transcoderPtr = 0;
+    const basisTexFormat = this.getBasisTextureFormat();
+    if (!this.funcs.basis_is_format_supported(format, basisTexFormat)) {
+      const sourceIsHDR = this.funcs.basis_tex_format_is_hdr(basisTexFormat) !== 0;
+      let reason = 'is not supported by this build, basis_capi_transcoder_full.wasm enables every target format';
+      if (sourceIsHDR !== this.funcs.basis_transcoder_format_is_hdr(format)) {
+        reason = sourceIsHDR ? 'is not possible, HDR sources need an HDR target format' : 'is not possible, LDR sources need an LDR target format';
+      } else if (sourceIsHDR &&
+        !this.funcs.basis_is_format_supported(TranscoderTextureFormat.cTFRGBA_HALF, BasisTextureFormat.cUASTC_HDR_4x4)) {
+        reason = 'needs the HDR build (basis_capi_transcoder_hdr.wasm)';
+      }
+      return new TranscodeError(TranscodeErrorCode.UnsupportedFormat,
+        `Transcoding ${BasisTextureFormat[basisTexFormat]} to ${getFormatName(format)} ${reason}.`, context);
     }
 
-    this.funcs.free(this.inputMemPtr);
-    this.inputMemPtr = 0;
-    this.inputMemSize = 0;
-    this.funcs.free(this.outputMemPtr);
-    this.outputMemPtr = 0;
-    this.outputMemSize = 0;
+    const decodeFlagsError = validateDecodeFlags(decodeFlags, format, basisTexFormat);
+    if (decodeFlagsError) {
+      return new TranscodeError(TranscodeErrorCode.InvalidDecodeFlags, decodeFlagsError, context);
+    }
 
-    this.initialized = false;
-    this.disposed = true;
+    const channelsError = channels ? validateChannels(channels, format, basisTexFormat) : null;
+    if (channelsError) {
+      return new TranscodeError(TranscodeErrorCode.InvalidChannels, channelsError, context);
+    }
+    const channel0 = channels?.[0] ?? -1;
+    const channel1 = channels?.[1] ?? -1;
+
+    const imageLevelInfo = this.imageLevelInfo;
+    if (!imageLevelInfo.fill(this.funcs, this.transcoderPtr, level, layer, face)) {
+      return new TranscodeError(TranscodeErrorCode.TranscodeFailed,
+        'Failed to read the image level info.', context);
+    }
+
+    return {
+      format, level, layer, face, decodeFlags, channel0, channel1, statePtr, context,
+      origWidth: imageLevelInfo.origWidth,
+      origHeight: imageLevelInfo.origHeight,
+    };
+  }
+
+  private runTranscode(
+    prepared: PreparedTranscode,
+    outputPtr: number,
+    outputSizeInBlocksOrPixels: number,
+    rowPitchInBlocksOrPixels: number,
+    rowsInPixels: number
+  ): TranscodeError | null {
+    const { format, level, layer, face, decodeFlags, channel0, channel1, statePtr, context } = prepared;
+    const success = this.funcs.ktx2_transcoder_transcode_image_level(
+      this.transcoderPtr, level, layer, face,
+      outputPtr, outputSizeInBlocksOrPixels, format,
+      decodeFlags, rowPitchInBlocksOrPixels, rowsInPixels, channel0, channel1, statePtr);
+    if (!success) {
+      return new TranscodeError(TranscodeErrorCode.TranscodeFailed,
+        'Failed to transcode the image, the image data is probably corrupt or startTranscoding() was not called.', context);
+    }
+    return null;
+  }
+
+  /**
+   * Returns a view of a byte range of the input file in the WASM heap, or null if the range is empty or out of bounds.
+   * The view must be consumed before any other call that may grow the heap.
+   */
+  private getFileBytes(offset: number, length: number): Uint8Array | null {
+    if (length === 0 || offset + length > this.inputDataSize) {
+      return null;
+    }
+    const start = this.inputMemPtr + offset;
+    return this.funcs.heap.subarray(start, start + length);
   }
 
   private checkInitialized(): void {
     if (!this.initialized) {
-      throw new Error('KTX2 transcoder not initialized. Call init() with KTX2 data first.');
+      throw new TranscodeError(TranscodeErrorCode.NotInitialized, 'KTX2 transcoder not initialized. Call init() with KTX2 data first.');
     }
   }
 
   private checkDisposed(): void {
     if (this.disposed) {
-      throw new Error('KTX2 transcoder already disposed.');
+      throw new TranscodeError(TranscodeErrorCode.Disposed, 'KTX2 transcoder already disposed.');
+    }
+    if (this.funcs.disposed) {
+      throw new TranscodeError(TranscodeErrorCode.Disposed, 'The BasisUniversal instance of this KTX2 transcoder has been disposed.');
     }
   }
 }
 
+/**
+ * A ktx2_transcoder_state in the WASM heap.
+ *
+ * ETC1S texture video P-frames are decoded relative to the previous frame, which is kept here.
+ * Pass the same state to transcodeImageLevel() for every frame of a sequence and clear() it
+ * before restarting at an I-frame. See AnimatedKTX2 for a player that does this.
+ */
+export class KTX2TranscoderState {
+  private statePtr: number;
+
+  constructor(private readonly funcs: BasisModuleFuncs) {
+    this.statePtr = funcs.ktx2_transcoder_state_new();
+  }
+
+  /** Pointer to the state in the WASM heap */
+  get ptr(): number {
+    this.checkDisposed();
+    return this.statePtr;
+  }
+
+  /**
+   * Forget the previous frame
+   */
+  clear(): void {
+    this.funcs.ktx2_transcoder_state_clear(this.ptr);
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    if (!this.statePtr) {
+      return;
+    }
+    if (!this.funcs.disposed) {
+      this.funcs.ktx2_transcoder_state_delete(this.statePtr);
+    }
+    this.statePtr = 0;
+  }
+
+  private checkDisposed(): void {
+    if (!this.statePtr) {
+      throw new TranscodeError(TranscodeErrorCode.Disposed, 'KTX2 transcoder state already disposed.');
+    }
+    if (this.funcs.disposed) {
+      throw new TranscodeError(TranscodeErrorCode.Disposed, 'The BasisUniversal instance of this KTX2 transcoder state has been disposed.');
+    }
+  }
+}
+
+interface PreparedTranscode {
+  format: TranscoderTextureFormat;
+  level: number;
+  layer: number;
+  face: number;
+  decodeFlags: number;
+  channel0: number;
+  channel1: number;
+  statePtr: number;
+  context: TranscodeErrorContext;
+  origWidth: number;
+  origHeight: number;
+}
+
+/**
+ * Block size of a compressed target format
+ */
+function getTargetBlockDimensions(format: TranscoderTextureFormat): [number, number] {
+  switch (format) {
+    case TranscoderTextureFormat.cTFFXT1_RGB:
+      return [8, 4];
+    case TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA:
+      return [6, 6];
+    default:
+      return [4, 4];
+  }
+}
+
+/**
+ * Work out why ktx2_transcoder::init() rejected the data, the C API only reports a bool.
+ */
+function diagnoseInitFailure(data: Uint8Array): TranscodeError {
+  const header = parseKTX2Header(data);
+  if (!header || !header.hasValidIdentifier) {
+    return new TranscodeError(TranscodeErrorCode.InvalidHeader, 'The data is not a KTX2 file or its header is truncated.');
+  }
+  const scheme = header.supercompressionScheme;
+  if (scheme === KTX2SupercompressionScheme.Zstd) {
+    return new TranscodeError(TranscodeErrorCode.ZstdNotSupported,
+      'The file is Zstandard supercompressed and this build has no Zstandard support, or the file is corrupt.');
+  }
+  if (scheme !== KTX2SupercompressionScheme.None && scheme !== KTX2SupercompressionScheme.BasisLZ) {
+    return new TranscodeError(TranscodeErrorCode.UnsupportedSupercompression,
+      `Supercompression scheme ${KTX2SupercompressionScheme[scheme] ?? scheme} is not supported.`);
+  }
+  return new TranscodeError(TranscodeErrorCode.CorruptFile, 'The KTX2 file is corrupt or not a Basis Universal texture.');
+}
+
 // // Information about a single 2D texture "image" in a KTX2 file.
 // struct ktx2_image_level_info
 // {
@@ -247,7 +732,7 @@ export class KTX2Transcoder {
 // 	bool m_iframe_flag;
 // };
 
-const KTX2ImageLevelInfoSize = 12 * 4 + 2 * 4;
+const KTX2ImageLevelInfoSize = 12 * 4 + 4;
 
 class KTX2ImageLevelInfo {
   private buffer: Uint32Array = new Uint32Array(KTX2ImageLevelInfoSize / 4);
@@ -318,12 +803,13 @@ class KTX2ImageLevelInfo {
     return this.buffer[11];
   }
 
+  // The two bools are packed into the low bytes of the last 32-bit word
   get alphaFlag(): boolean {
-    return this.buffer[12] !== 0;
+    return (this.buffer[12] & 0xff) !== 0;
   }
 
   get iframeFlag(): boolean {
-    return this.buffer[13] !== 0;
+    return ((this.buffer[12] >>> 8) & 0xff) !== 0;
   }
 }
 
@@ -391,4 +877,24 @@ class KTX2Header {
    get levels() {
     return this.dataView[10];
   }
+
+  /** Byte offset of the Data Format Descriptor from the start of the file. */
+  get dfdByteOffset() {
+    return this.dataView[12];
+  }
+
+  /** Byte length of the Data Format Descriptor. */
+  get dfdByteLength() {
+    return this.dataView[13];
+  }
+
+  /** Byte offset of the key/value data from the start of the file, 0 if there is none. */
+  get kvdByteOffset() {
+    return this.dataView[14];
+  }
+
+  /** Byte length of the key/value data, 0 if there is none. */
+  get kvdByteLength() {
+    return this.dataView[15];
+  }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 // TypeScript definitions for Basis Universal transcoder
 
+import type { WasmHeapAllocation } from './heap-allocation';
+
 export interface EmscriptenModule {
   HEAPU8: Uint8Array;
   ccall: (name: string, returnType: string, argTypes: string[], args: any[]) => any;
@@ -92,13 +94,60 @@ export enum BasisTextureFormat {
   cASTC_HDR_6x6_INTERMEDIATE = 4,
 }
 
+export enum BasisTextureType {
+  cBASISTexType2D = 0,              // An arbitrary array of 2D RGB or RGBA images with optional mipmaps, array size = # images, each image may have a different resolution and # of mipmap levels
+  cBASISTexType2DArray = 1,         // An array of 2D RGB or RGBA images with optional mipmaps, array size = # images, each image has the same resolution and mipmap levels
+  cBASISTexTypeCubemapArray = 2,    // an array of cubemap levels, total # of images must be divisable by 6, in X+, X-, Y+, Y-, Z+, Z- order, with optional mipmaps
+  cBASISTexTypeVideoFrames = 3,     // An array of 2D video frames, with optional mipmaps, # frames = # images, each image has the same resolution and # of mipmap levels
+  cBASISTexTypeVolume = 4,          // A 3D texture with optional mipmaps, Z dimension = # images, each image has the same resolution and # of mipmap levels
+}
+
+// basisu_decode_flags
+export enum DecodeFlags {
+  cDecodeFlagsNone = 0,
+  // PVRTC1: decode non-pow2 ETC1S texture level to the next larger power of 2 (not implemented yet, but we're going to support it). Ignored if the slice's dimensions are already a power of 2.
+  cDecodeFlagsPVRTCDecodeToNextPow2 = 2,
+  // When decoding to an opaque texture format, if the basis file has alpha, decode the alpha slice instead of the color slice to the output texture format.
+  // This is primarily to allow decoding of textures with alpha to multiple ETC1 textures (one for color, another for alpha).
+  cDecodeFlagsTranscodeAlphaDataToOpaqueFormats = 4,
+  // Forbid usage of BC1 3 color blocks (we don't support BC1 punchthrough alpha yet).
+  // This flag is used internally when decoding to BC3.
+  cDecodeFlagsBC1ForbidThreeColorBlocks = 8,
+  // The output buffer contains alpha endpoint/selector indices.
+  // Used internally when decoding formats like ASTC that require both color and alpha data to be available when transcoding to the output format.
+  cDecodeFlagsOutputHasAlphaIndices = 16,
+  // Enable slower, but higher quality transcoding for some formats (UASTC to ETC1/BC1/BC3/PVRTC1/ASTC).
+  cDecodeFlagsHighQuality = 32,
+  // Disable the chroma filtering applied when transcoding ETC1S to some formats.
+  cDecodeFlagsNoETC1SChromaFiltering = 64,
+}
+
+/**
+ * Source channel for TranscodeOptions.channels
+ */
+export enum Channel {
+  R = 0,
+  G = 1,
+  B = 2,
+  A = 3,
+}
+
 export interface TranscodeOptions {
   format: TranscoderTextureFormat;
   level?: number;
   layer?: number;
   face?: number;
+  /** Sets DecodeFlags.cDecodeFlagsTranscodeAlphaDataToOpaqueFormats, only valid for opaque target formats */
   getAlphaForOpaqueFormats?: boolean;
-  decodeFlags?: number;
+  /** Sets DecodeFlags.cDecodeFlagsHighQuality */
+  highQuality?: boolean;
+  /** Raw decode flags, combined with the flags set by the boolean options */
+  decodeFlags?: DecodeFlags;
+  /**
+   * Source channels written to the output of single- and two-channel formats (BC4, BC5, ETC2 EAC R11/RG11).
+   * UASTC LDR sources only. Defaults to R for one channel and R, A for two channels (the normal map layout).
+   */
+  channels?: [Channel, Channel?];
 }
 
 export interface TranscodeResult {
@@ -114,3 +163,74 @@ export interface TranscodeResult {
   width: number;
   height: number;
 }
+
+/**
+ * Destination layout of transcodeImageLevelInto().
+ * Pitch and rows are counted in blocks for compressed formats and in pixels for uncompressed formats.
+ */
+export interface TranscodeTargetLayout {
+  /** Byte offset of the image's first row in the destination. Default 0. */
+  byteOffset?: number;
+  /** Distance between the starts of two rows, in blocks or pixels. Defaults to the image's row length. Not supported for PVRTC1. */
+  rowPitch?: number;
+  /** Number of block or pixel rows in the destination. Defaults to the image's row count. */
+  rows?: number;
+}
+
+/** Copy the transcoded image into an ArrayBuffer or SharedArrayBuffer */
+export interface TranscodeBufferTarget extends TranscodeTargetLayout {
+  buffer: ArrayBuffer | SharedArrayBuffer;
+}
+
+/** Transcode straight into caller-owned WASM heap memory, without a copy */
+export interface TranscodeHeapTarget extends TranscodeTargetLayout {
+  allocation: WasmHeapAllocation;
+}
+
+export type TranscodeTarget = TranscodeBufferTarget | TranscodeHeapTarget;
+
+export interface TranscodeIntoResult {
+  width: number;
+  height: number;
+  /** Row pitch used, in blocks or pixels */
+  rowPitch: number;
+  /** Number of block or pixel rows written */
+  rows: number;
+  /** Bytes from byteOffset to the end of the last row written */
+  byteLength: number;
+}
+
+export enum TextureKind {
+  Texture2D = 0,
+  Texture2DArray = 1,
+  Cubemap = 2,
+  CubemapArray = 3,
+}
+
+export interface TranscodedImage {
+  level: number;
+  layer: number;
+  face: number;
+  width: number;
+  height: number;
+  /** Owned copy of the transcoded image data, safe to keep after further transcoder calls */
+  data: Uint8Array;
+}
+
+export interface TranscodedTexture {
+  format: TranscoderTextureFormat;
+  kind: TextureKind;
+  /** Width of level 0 in pixels */
+  width: number;
+  /** Height of level 0 in pixels */
+  height: number;
+  levelCount: number;
+  /** Number of array layers, 1 for non-array textures */
+  layerCount: number;
+  /** Number of faces, 6 for cubemaps and 1 otherwise */
+  faceCount: number;
+  /** Images indexed by [level][layer][face] */
+  images: TranscodedImage[][][];
+  /** Total byte size of all images */
+  byteLength: number;
+}
@@ -1,95 +1,78 @@
-import { TranscoderTextureFormat } from './types.js';
+import { BasisTextureFormat, TranscoderTextureFormat } from './types.js';
+import { getWebGLCapabilities, isFormatUploadable, selectTranscodeFormat } from './format-selection.js';
 
 /**
  * Utility functions for Basis Universal transcoding
  */
 
+const KTX2_IDENTIFIER = [0xAB, 0x4B, 0x54, 0x58, 0x20, 0x32, 0x30, 0xBB, 0x0D, 0x0A, 0x1A, 0x0A];
+
 /**
- * Detect the best transcoder format for the current platform
+ * Check whether the data starts with the KTX2 file identifier («KTX 20»\r\n\x1A\n)
  */
-export function detectBestFormat(gl: WebGLRenderingContext): TranscoderTextureFormat {
-
-  // Check for compressed texture extensions
-  const extensions = {
-    s3tc: gl.getExtension('WEBGL_compressed_texture_s3tc'),
-    etc1: gl.getExtension('WEBGL_compressed_texture_etc1'),
-    astc: gl.getExtension('WEBGL_compressed_texture_astc'),
-    pvrtc: gl.getExtension('WEBGL_compressed_texture_pvrtc'),
-    etc: gl.getExtension('WEBGL_compressed_texture_etc'),
-  };
-
-  // Prefer formats in order of quality/compression efficiency
-  if (extensions.astc) {
-    return TranscoderTextureFormat.cTFASTC_4x4_RGBA;
+export function isKTX2FileData(data: Uint8Array): boolean {
+  if (data.length < KTX2_IDENTIFIER.length) {
+    return false;
   }
+  return KTX2_IDENTIFIER.every((byte, i) => data[i] === byte);
+}
 
-  if (extensions.s3tc) {
-    return TranscoderTextureFormat.cTFBC7_RGBA; // BC7 if available, fallback to BC3
-  }
+/**
+ * WASM build variants shipped with the package
+ * - `default`: LDR (ETC1S, UASTC LDR) sources only
+ * - `hdr`: adds UASTC HDR 4x4 and ASTC HDR 6x6 sources
+ * - `full`: HDR sources plus the target formats compiled out of the other builds
+ *   (ATC, FXT1, PVRTC2, ETC2 EAC R11/RG11) and higher quality ASTC LDR transcoding
+ */
+export type WasmVariant = 'default' | 'hdr' | 'full';
 
-  if (extensions.etc) {
-    return TranscoderTextureFormat.cTFRGBA32; // ETC2 variants would go here
-  }
+/**
+ * File name of a WASM build variant, e.g. to build its URL
+ */
+export function getWasmFileName(variant: WasmVariant = 'default'): string {
+  return variant === 'default' ? 'basis_capi_transcoder.wasm' : `basis_capi_transcoder_${variant}.wasm`;
+}
 
-  if (extensions.pvrtc) {
-    return TranscoderTextureFormat.cTFPVRTC1_4_RGBA;
-  }
+/**
+ * Check whether the data starts with the .basis file signature ('sB')
+ */
+export function isBasisFileData(data: Uint8Array): boolean {
+  return data.length >= 2 && data[0] === 0x73 && data[1] === 0x42;
+}
 
-  // Fallback to uncompressed
-  return TranscoderTextureFormat.cTFRGBA32;
+/**
+ * Detect the best transcoder format for the current platform
+ *
+ * @deprecated Ignores the source texture. Use selectTranscodeFormat(getWebGLCapabilities(gl), textureInfo)
+ * which considers ETC1S vs UASTC, alpha and texture usage.
+ */
+export function detectBestFormat(gl: WebGLRenderingContext): TranscoderTextureFormat {
+  // Without texture information, assume a UASTC texture with alpha
+  return selectTranscodeFormat(getWebGLCapabilities(gl), {
+    basisFormat: BasisTextureFormat.cUASTC4x4,
+    hasAlpha: true,
+  })[0];
 }
 
 /**
- * Check if a format is supported on the current platform
+ * Check if a format can be uploaded to the GPU on the current platform
+ *
+ * This is about GPU upload only. In Node.js (no GPU) only uncompressed formats are reported,
+ * use BasisUniversal.isFormatTranscodable() to know whether a format can be produced,
+ * and isFormatUploadable() to check against explicit capabilities.
  */
 export function isFormatSupported(format: TranscoderTextureFormat): boolean {
-  if (typeof window === 'undefined') {
-    // In Node.js, only uncompressed formats are meaningful
-    return format === TranscoderTextureFormat.cTFRGBA32 ||
-      format === TranscoderTextureFormat.cTFRGB565 ||
-      format === TranscoderTextureFormat.cTFRGBA4444;
+  if (typeof document === 'undefined') {
+    return isFormatUploadable(format, {});
   }
 
   const canvas = document.createElement('canvas');
-  const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
-
+  const gl = canvas.getContext('webgl2') || canvas.getContext('webgl');
   if (!gl) {
-    return format === TranscoderTextureFormat.cTFRGBA32 ||
-      format === TranscoderTextureFormat.cTFRGB565 ||
-      format === TranscoderTextureFormat.cTFRGBA4444;
+    return isFormatUploadable(format, {});
   }
 
-  const gl1 = gl as WebGLRenderingContext;
-  switch (format) {
-    case TranscoderTextureFormat.cTFBC1_RGB:
-    case TranscoderTextureFormat.cTFBC3_RGBA:
-    case TranscoderTextureFormat.cTFBC4_R:
-    case TranscoderTextureFormat.cTFBC5_RG:
-    case TranscoderTextureFormat.cTFBC7_RGBA:
-      return !!gl1.getExtension('WEBGL_compressed_texture_s3tc');
-
-    case TranscoderTextureFormat.cTFASTC_4x4_RGBA:
-      return !!gl1.getExtension('WEBGL_compressed_texture_astc');
-
-    case TranscoderTextureFormat.cTFPVRTC1_4_RGB:
-    case TranscoderTextureFormat.cTFPVRTC1_4_RGBA:
-    case TranscoderTextureFormat.cTFPVRTC2_4_RGB:
-    case TranscoderTextureFormat.cTFPVRTC2_4_RGBA:
-      return !!gl1.getExtension('WEBGL_compressed_texture_pvrtc');
-
-    case TranscoderTextureFormat.cTFETC2_EAC_R11:
-    case TranscoderTextureFormat.cTFETC2_EAC_RG11:
-      return !!gl1.getExtension('WEBGL_compressed_texture_etc');
-
-    case TranscoderTextureFormat.cTFRGBA32:
-    case TranscoderTextureFormat.cTFRGB565:
-    case TranscoderTextureFormat.cTFBGR565:
-    case TranscoderTextureFormat.cTFRGBA4444:
-      return true; // Always supported
-
-    default:
-      return false;
-  }
+  return isFormatUploadable(format, getWebGLCapabilities(gl));
 }
 
 /**
@@ -0,0 +1,267 @@
+import { KTX2Transcoder } from './transcoder';
+import { DecodeFlags, TextureKind, TranscodedTexture, TranscoderTextureFormat } from './types';
+import { TextureCapabilities } from './format-selection';
+
+/**
+ * WebGL/WebGL2 texture upload helpers
+ */
+
+export interface WebGLTextureFormatInfo {
+  /** true if the data is uploaded with compressedTexImage2D/3D */
+  compressed: boolean;
+  /** internalformat argument of (compressed)texImage2D/3D */
+  internalFormat: number;
+  /** format argument of texImage2D/3D, 0 for compressed formats */
+  format: number;
+  /** type argument of texImage2D/3D, 0 for compressed formats */
+  type: number;
+}
+
+// Core GL enums
+const GL_RGB = 0x1907;
+const GL_RGBA = 0x1908;
+const GL_UNSIGNED_BYTE = 0x1401;
+const GL_UNSIGNED_SHORT_4_4_4_4 = 0x8033;
+const GL_UNSIGNED_SHORT_5_6_5 = 0x8363;
+const GL_HALF_FLOAT = 0x140B;
+const GL_HALF_FLOAT_OES = 0x8D61;
+const GL_UNSIGNED_INT_5_9_9_9_REV = 0x8C3E;
+const GL_RGBA8 = 0x8058;
+const GL_SRGB8_ALPHA8 = 0x8C43;
+const GL_SRGB_ALPHA_EXT = 0x8C42;
+const GL_RGB565 = 0x8D62;
+const GL_RGBA4 = 0x8056;
+const GL_RGBA16F = 0x881A;
+const GL_RGB16F = 0x881B;
+const GL_RGB9_E5 = 0x8C3D;
+const GL_COMPRESSED_RGB_ETC1_WEBGL = 0x8D64;
+const GL_COMPRESSED_RGB8_ETC2 = 0x9274;
+const GL_COMPRESSED_SRGB8_ETC2 = 0x9275;
+
+// Compressed formats: [linear, sRGB]. Formats without an sRGB variant repeat the linear enum.
+const compressedFormats: Partial<Record<TranscoderTextureFormat, [number, number]>> = {
+  // WEBGL_compressed_texture_etc1 has no sRGB variant, ETC1 data is valid ETC2 RGB8 data
+  [TranscoderTextureFormat.cTFETC1_RGB]: [GL_COMPRESSED_RGB_ETC1_WEBGL, GL_COMPRESSED_SRGB8_ETC2],
+  // WEBGL_compressed_texture_etc
+  [TranscoderTextureFormat.cTFETC2_RGBA]: [0x9278 /* COMPRESSED_RGBA8_ETC2_EAC */, 0x9279 /* COMPRESSED_SRGB8_ALPHA8_ETC2_EAC */],
+  [TranscoderTextureFormat.cTFETC2_EAC_R11]: [0x9270 /* COMPRESSED_R11_EAC */, 0x9270],
+  [TranscoderTextureFormat.cTFETC2_EAC_RG11]: [0x9272 /* COMPRESSED_RG11_EAC */, 0x9272],
+  // WEBGL_compressed_texture_s3tc / WEBGL_compressed_texture_s3tc_srgb
+  [TranscoderTextureFormat.cTFBC1_RGB]: [0x83F0 /* COMPRESSED_RGB_S3TC_DXT1_EXT */, 0x8C4C /* COMPRESSED_SRGB_S3TC_DXT1_EXT */],
+  [TranscoderTextureFormat.cTFBC3_RGBA]: [0x83F3 /* COMPRESSED_RGBA_S3TC_DXT5_EXT */, 0x8C4F /* COMPRESSED_SRGB_ALPHA_S3TC_DXT5_EXT */],
+  // EXT_texture_compression_rgtc
+  [TranscoderTextureFormat.cTFBC4_R]: [0x8DBB /* COMPRESSED_RED_RGTC1_EXT */, 0x8DBB],
+  [TranscoderTextureFormat.cTFBC5_RG]: [0x8DBD /* COMPRESSED_RED_GREEN_RGTC2_EXT */, 0x8DBD],
+  // EXT_texture_compression_bptc
+  [TranscoderTextureFormat.cTFBC6H]: [0x8E8F /* COMPRESSED_RGB_BPTC_UNSIGNED_FLOAT_EXT */, 0x8E8F],
+  [TranscoderTextureFormat.cTFBC7_RGBA]: [0x8E8C /* COMPRESSED_RGBA_BPTC_UNORM_EXT */, 0x8E8D /* COMPRESSED_SRGB_ALPHA_BPTC_UNORM_EXT */],
+  // WEBGL_compressed_texture_pvrtc
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGB]: [0x8C00 /* COMPRESSED_RGB_PVRTC_4BPPV1_IMG */, 0x8C00],
+  [TranscoderTextureFormat.cTFPVRTC1_4_RGBA]: [0x8C02 /* COMPRESSED_RGBA_PVRTC_4BPPV1_IMG */, 0x8C02],
+  // WEBGL_compressed_texture_astc (HDR requires the "hdr" profile)
+  [TranscoderTextureFormat.cTFASTC_4x4_RGBA]: [0x93B0 /* COMPRESSED_RGBA_ASTC_4x4_KHR */, 0x93D0 /* COMPRESSED_SRGB8_ALPHA8_ASTC_4x4_KHR */],
+  [TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA]: [0x93B0 /* COMPRESSED_RGBA_ASTC_4x4_KHR */, 0x93B0],
+  [TranscoderTextureFormat.cTFASTC_HDR_6x6_RGBA]: [0x93B4 /* COMPRESSED_RGBA_ASTC_6x6_KHR */, 0x93B4],
+};
+
+/**
+ * Select the WebGL enums used to upload a transcoder format.
+ *
+ * Pure function of its arguments, so it can be unit-tested without a WebGL context.
+ *
+ * @param format Transcoder output format
+ * @param srgb Whether the data is sRGB encoded; ignored for formats without an sRGB variant
+ * @param webgl2 Whether the target is a WebGL2 context (sized internal formats) or WebGL1
+ * @param capabilities Context capabilities. ETC1 data is uploaded with the ETC2 enums when sRGB or without etc1,
+ * which then requires etc2.
+ * @returns The enums, or null if the format cannot be uploaded with WebGL (or with these capabilities)
+ */
+export function getWebGLTextureFormat(
+  format: TranscoderTextureFormat,
+  srgb: boolean,
+  webgl2: boolean = true,
+  capabilities?: TextureCapabilities
+): WebGLTextureFormatInfo | null {
+  if (format === TranscoderTextureFormat.cTFETC1_RGB && capabilities && (srgb || !capabilities.etc1)) {
+    return capabilities.etc2
+      ? { compressed: true, internalFormat: srgb ? GL_COMPRESSED_SRGB8_ETC2 : GL_COMPRESSED_RGB8_ETC2, format: 0, type: 0 }
+      : null;
+  }
+  const compressed = compressedFormats[format];
+  if (compressed) {
+    return { compressed: true, internalFormat: srgb ? compressed[1] : compressed[0], format: 0, type: 0 };
+  }
+
+  const uncompressed = (internalFormat: number, format: number, type: number): WebGLTextureFormatInfo =>
+    ({ compressed: false, internalFormat, format, type });
+
+  switch (format) {
+    case TranscoderTextureFormat.cTFRGBA32:
+      if (webgl2) {
+        return uncompressed(srgb ? GL_SRGB8_ALPHA8 : GL_RGBA8, GL_RGBA, GL_UNSIGNED_BYTE);
+      }
+      // WebGL1 requires internalformat === format, sRGB needs EXT_sRGB
+      return srgb
+        ? uncompressed(GL_SRGB_ALPHA_EXT, GL_SRGB_ALPHA_EXT, GL_UNSIGNED_BYTE)
+        : uncompressed(GL_RGBA, GL_RGBA, GL_UNSIGNED_BYTE);
+
+    case TranscoderTextureFormat.cTFRGB565:
+      return uncompressed(webgl2 ? GL_RGB565 : GL_RGB, GL_RGB, GL_UNSIGNED_SHORT_5_6_5);
+
+    case TranscoderTextureFormat.cTFRGBA4444:
+      return uncompressed(webgl2 ? GL_RGBA4 : GL_RGBA, GL_RGBA, GL_UNSIGNED_SHORT_4_4_4_4);
+
+    case TranscoderTextureFormat.cTFRGBA_HALF:
+      return webgl2
+        ? uncompressed(GL_RGBA16F, GL_RGBA, GL_HALF_FLOAT)
+        : uncompressed(GL_RGBA, GL_RGBA, GL_HALF_FLOAT_OES);
+
+    case TranscoderTextureFormat.cTFRGB_HALF:
+      return webgl2
+        ? uncompressed(GL_RGB16F, GL_RGB, GL_HALF_FLOAT)
+        : uncompressed(GL_RGB, GL_RGB, GL_HALF_FLOAT_OES);
+
+    case TranscoderTextureFormat.cTFRGB_9E5:
+      return webgl2 ? uncompressed(GL_RGB9_E5, GL_RGB, GL_UNSIGNED_INT_5_9_9_9_REV) : null;
+
+    default:
+      // BGR565 has no GL equivalent, PVRTC2, ATC and FXT1 have no WebGL extension
+      return null;
+  }
+}
+
+export interface CreateWebGLTextureOptions {
+  /** Whether the data is sRGB encoded. Defaults to the transfer function of the KTX2 Data Format Descriptor. */
+  srgb?: boolean;
+  /** Flags passed to every transcodeImageLevel() call */
+  decodeFlags?: DecodeFlags;
+}
+
+function isWebGL2(gl: WebGLRenderingContext | WebGL2RenderingContext): gl is WebGL2RenderingContext {
+  return typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext;
+}
+
+/**
+ * View the bytes with the array type texImage2D/3D expects for the upload type.
+ */
+function typedPixels(data: Uint8Array, type: number): ArrayBufferView {
+  switch (type) {
+    case GL_UNSIGNED_SHORT_5_6_5:
+    case GL_UNSIGNED_SHORT_4_4_4_4:
+    case GL_HALF_FLOAT:
+    case GL_HALF_FLOAT_OES:
+      return new Uint16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+    case GL_UNSIGNED_INT_5_9_9_9_REV:
+      return new Uint32Array(data.buffer, data.byteOffset, data.byteLength / 4);
+    default:
+      return data;
+  }
+}
+
+function concatLayers(texture: TranscodedTexture, level: number): Uint8Array {
+  const images = texture.images[level].map((faces) => faces[0]);
+  const out = new Uint8Array(images.reduce((sum, image) => sum + image.data.byteLength, 0));
+  let offset = 0;
+  for (const image of images) {
+    out.set(image.data, offset);
+    offset += image.data.byteLength;
+  }
+  return out;
+}
+
+/**
+ * Transcode a KTX2 texture and upload all of its mip levels to a new WebGL texture.
+ *
+ * 2D textures and cubemaps work with WebGL1 and WebGL2, texture arrays require WebGL2.
+ * The transcoder must be initialized with init(). The required compression extension must
+ * already be enabled with getExtension().
+ *
+ * @param gl WebGL or WebGL2 context
+ * @param transcoder Initialized KTX2 transcoder
+ * @param format Target format, see detectBestFormat()
+ * @returns The texture bound to its target, or null if transcoding failed
+ */
+export function createWebGLTexture(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  transcoder: KTX2Transcoder,
+  format: TranscoderTextureFormat,
+  options: CreateWebGLTextureOptions = {}
+): WebGLTexture | null {
+  const webgl2 = isWebGL2(gl);
+  const srgb = options.srgb ?? transcoder.getDataFormatDescriptor()?.isSRGB ?? false;
+  const capabilities = format === TranscoderTextureFormat.cTFETC1_RGB
+    ? { etc1: !!gl.getExtension('WEBGL_compressed_texture_etc1'), etc2: !!gl.getExtension('WEBGL_compressed_texture_etc') }
+    : undefined;
+  const formatInfo = getWebGLTextureFormat(format, srgb, webgl2, capabilities);
+  if (!formatInfo) {
+    throw new Error(`Transcoder format ${format} cannot be uploaded with WebGL.`);
+  }
+
+  const texture = transcoder.transcodeAll(format, { decodeFlags: options.decodeFlags });
+  if (!texture) {
+    return null;
+  }
+
+  let target: number;
+  switch (texture.kind) {
+    case TextureKind.Texture2D:
+      target = gl.TEXTURE_2D;
+      break;
+    case TextureKind.Cubemap:
+      target = gl.TEXTURE_CUBE_MAP;
+      break;
+    case TextureKind.Texture2DArray:
+      if (!webgl2) {
+        throw new Error('Texture arrays require a WebGL2 context.');
+      }
+      target = gl.TEXTURE_2D_ARRAY;
+      break;
+    default:
+      throw new Error('Cubemap arrays are not supported by WebGL.');
+  }
+
+  const glTexture = gl.createTexture();
+  if (!glTexture) {
+    return null;
+  }
+  gl.bindTexture(target, glTexture);
+
+  const unpackAlignment = gl.getParameter(gl.UNPACK_ALIGNMENT);
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+  try {
+    for (let level = 0; level < texture.levelCount; level++) {
+      const { width, height } = texture.images[level][0][0];
+
+      if (target === gl.TEXTURE_2D || target === gl.TEXTURE_CUBE_MAP) {
+        for (let face = 0; face < texture.faceCount; face++) {
+          const faceTarget = target === gl.TEXTURE_CUBE_MAP ? gl.TEXTURE_CUBE_MAP_POSITIVE_X + face : target;
+          const data = texture.images[level][0][face].data;
+          if (formatInfo.compressed) {
+            gl.compressedTexImage2D(faceTarget, level, formatInfo.internalFormat, width, height, 0, data);
+          } else {
+            gl.texImage2D(faceTarget, level, formatInfo.internalFormat, width, height, 0,
+              formatInfo.format, formatInfo.type, typedPixels(data, formatInfo.type));
+          }
+        }
+      } else {
+        const gl2 = gl as WebGL2RenderingContext;
+        const data = concatLayers(texture, level);
+        if (formatInfo.compressed) {
+          gl2.compressedTexImage3D(target, level, formatInfo.internalFormat, width, height, texture.layerCount, 0, data);
+        } else {
+          gl2.texImage3D(target, level, formatInfo.internalFormat, width, height, texture.layerCount, 0,
+            formatInfo.format, formatInfo.type, typedPixels(data, formatInfo.type));
+        }
+      }
+    }
+  } finally {
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, unpackAlignment);
+  }
+
+  gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, texture.levelCount > 1 ? gl.LINEAR_MIPMAP_LINEAR : gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  return glTexture;
+}
@@ -0,0 +1,119 @@
+import { BasisTextureFormat, TranscoderTextureFormat } from './types';
+import { selectTranscodeFormat, TextureCapabilities } from './format-selection';
+
+/**
+ * WebGPU texture formats that transcoded data can be uploaded to.
+ * A subset of GPUTextureFormat, declared here so no WebGPU type package is required.
+ */
+export type WebGPUTextureFormat =
+  | 'rgba8unorm' | 'rgba8unorm-srgb'
+  | 'rgba16float'
+  | 'rgb9e5ufloat'
+  | 'bc1-rgba-unorm' | 'bc1-rgba-unorm-srgb'
+  | 'bc3-rgba-unorm' | 'bc3-rgba-unorm-srgb'
+  | 'bc4-r-unorm'
+  | 'bc5-rg-unorm'
+  | 'bc6h-rgb-ufloat'
+  | 'bc7-rgba-unorm' | 'bc7-rgba-unorm-srgb'
+  | 'etc2-rgb8unorm' | 'etc2-rgb8unorm-srgb'
+  | 'etc2-rgba8unorm' | 'etc2-rgba8unorm-srgb'
+  | 'eac-r11unorm'
+  | 'eac-rg11unorm'
+  | 'astc-4x4-unorm' | 'astc-4x4-unorm-srgb';
+
+/**
+ * Anything exposing WebGPU features: a GPUAdapter, a GPUDevice,
+ * or a plain iterable of feature names (for example a Set) for testing without a GPU.
+ */
+export type WebGPUFeatureSource =
+  | { readonly features: { has(feature: string): boolean } }
+  | Iterable<string>;
+
+export interface WebGPUFormatOptions {
+  /** Whether the texture has alpha that must be preserved */
+  hasAlpha?: boolean;
+  /** Source format of the KTX2/.basis file, see getBasisTextureFormat() */
+  basisFormat?: BasisTextureFormat;
+}
+
+/**
+ * The feature set of an adapter or device, or the feature names collected once so one-shot iterators work too
+ */
+function getFeatures(source: WebGPUFeatureSource): { has(feature: string): boolean } {
+  if (typeof source === 'object' && source !== null && 'features' in source) {
+    return source.features;
+  }
+  return new Set(source);
+}
+
+/**
+ * Translate WebGPU features into TextureCapabilities for selectTranscodeFormat()
+ */
+export function getWebGPUCapabilities(source: WebGPUFeatureSource): TextureCapabilities {
+  const features = getFeatures(source);
+  const bc = features.has('texture-compression-bc');
+  const etc2 = features.has('texture-compression-etc2');
+  return {
+    astc: features.has('texture-compression-astc'),
+    // WebGPU has no ASTC HDR formats
+    astcHDR: false,
+    bptc: bc,
+    s3tc: bc,
+    rgtc: bc,
+    etc1: etc2,
+    etc2,
+    pvrtc: false,
+    halfFloat: true,
+    rgb9e5: true,
+  };
+}
+
+/**
+ * Detect the best transcoder format for a WebGPU adapter or device
+ *
+ * Looks at the `texture-compression-bc`, `texture-compression-etc2` and `texture-compression-astc` features
+ * and returns the first candidate of selectTranscodeFormat() that WebGPU can represent.
+ * Without a basisFormat, a UASTC source is assumed.
+ */
+export function detectBestFormatWebGPU(source: WebGPUFeatureSource, options: WebGPUFormatOptions = {}): TranscoderTextureFormat {
+  const { hasAlpha = false, basisFormat = BasisTextureFormat.cUASTC4x4 } = options;
+  const candidates = selectTranscodeFormat(getWebGPUCapabilities(source), { basisFormat, hasAlpha });
+  return candidates.find((format) => toGPUTextureFormat(format, false) !== null) ?? TranscoderTextureFormat.cTFRGBA32;
+}
+
+/**
+ * Map a transcoder format to the WebGPU texture format to upload it with
+ *
+ * @param format Transcoder output format
+ * @param srgb Whether the texture data is sRGB encoded; ignored for formats without an sRGB variant
+ * @returns The GPUTextureFormat, or null if WebGPU cannot represent the format
+ */
+export function toGPUTextureFormat(format: TranscoderTextureFormat, srgb: boolean): WebGPUTextureFormat | null {
+  const formats = gpuTextureFormats[format];
+  if (!formats) {
+    return null;
+  }
+  return srgb ? formats[1] : formats[0];
+}
+
+// [linear, sRGB] per transcoder format. Formats without an sRGB variant repeat the linear one.
+const gpuTextureFormats: Partial<Record<TranscoderTextureFormat, [WebGPUTextureFormat, WebGPUTextureFormat]>> = {
+  // ETC1 data is valid ETC2 RGB8 data
+  [TranscoderTextureFormat.cTFETC1_RGB]: ['etc2-rgb8unorm', 'etc2-rgb8unorm-srgb'],
+  [TranscoderTextureFormat.cTFETC2_RGBA]: ['etc2-rgba8unorm', 'etc2-rgba8unorm-srgb'],
+  [TranscoderTextureFormat.cTFETC2_EAC_R11]: ['eac-r11unorm', 'eac-r11unorm'],
+  [TranscoderTextureFormat.cTFETC2_EAC_RG11]: ['eac-rg11unorm', 'eac-rg11unorm'],
+
+  [TranscoderTextureFormat.cTFBC1_RGB]: ['bc1-rgba-unorm', 'bc1-rgba-unorm-srgb'],
+  [TranscoderTextureFormat.cTFBC3_RGBA]: ['bc3-rgba-unorm', 'bc3-rgba-unorm-srgb'],
+  [TranscoderTextureFormat.cTFBC4_R]: ['bc4-r-unorm', 'bc4-r-unorm'],
+  [TranscoderTextureFormat.cTFBC5_RG]: ['bc5-rg-unorm', 'bc5-rg-unorm'],
+  [TranscoderTextureFormat.cTFBC6H]: ['bc6h-rgb-ufloat', 'bc6h-rgb-ufloat'],
+  [TranscoderTextureFormat.cTFBC7_RGBA]: ['bc7-rgba-unorm', 'bc7-rgba-unorm-srgb'],
+
+  [TranscoderTextureFormat.cTFASTC_4x4_RGBA]: ['astc-4x4-unorm', 'astc-4x4-unorm-srgb'],
+
+  [TranscoderTextureFormat.cTFRGBA32]: ['rgba8unorm', 'rgba8unorm-srgb'],
+  [TranscoderTextureFormat.cTFRGBA_HALF]: ['rgba16float', 'rgba16float'],
+  [TranscoderTextureFormat.cTFRGB_9E5]: ['rgb9e5ufloat', 'rgb9e5ufloat'],
+};
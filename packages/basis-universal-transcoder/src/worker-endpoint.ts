@@ -0,0 +1,61 @@
+/**
+ * Message endpoints shared by exposeTranscoderWorker() and TranscoderWorkerPool
+ *
+ * Browsers and Node.js name the same operations differently: browser workers use
+ * addEventListener() and a transfer option, Node.js ports and workers use on() and a transfer list.
+ */
+
+/**
+ * Browser worker scope or Worker. The transfer list is passed in the options, the form `self` also accepts when typed as Window.
+ */
+export interface BrowserMessageEndpoint {
+  postMessage(message: unknown, options: { transfer: ArrayBuffer[] }): void;
+  addEventListener(type: string, listener: (event: Event) => void): void;
+}
+
+/**
+ * Node.js MessagePort (parentPort) or worker_threads Worker
+ */
+export interface NodeMessageEndpoint {
+  postMessage(message: unknown, transferList: ArrayBuffer[]): void;
+  on(event: string, listener: (value: unknown) => void): unknown;
+}
+
+/**
+ * Minimal message endpoint: a browser worker scope / Worker, or a Node.js MessagePort / Worker.
+ */
+export type TranscoderMessageEndpoint = BrowserMessageEndpoint | NodeMessageEndpoint;
+
+function isNodeEndpoint(endpoint: TranscoderMessageEndpoint): endpoint is NodeMessageEndpoint {
+  return typeof (endpoint as NodeMessageEndpoint).on === 'function';
+}
+
+/**
+ * Listen to a browser or Node.js endpoint.
+ * Node.js delivers the value directly, browsers wrap it in an event; messages are unwrapped to their data.
+ * 'exit' is only emitted by Node.js workers, with the exit code.
+ */
+export function listenToEndpoint(
+  endpoint: TranscoderMessageEndpoint,
+  type: 'message' | 'messageerror' | 'error' | 'exit',
+  listener: (value: unknown) => void
+): void {
+  if (isNodeEndpoint(endpoint)) {
+    endpoint.on(type, listener);
+  } else if (typeof endpoint.addEventListener === 'function') {
+    endpoint.addEventListener(type, (event) => listener(type === 'message' ? (event as MessageEvent).data : event));
+  } else {
+    throw new Error('Unsupported worker endpoint: expected addEventListener() or on()');
+  }
+}
+
+/**
+ * Post a message to a browser or Node.js endpoint, transferring the given buffers
+ */
+export function postToEndpoint(endpoint: TranscoderMessageEndpoint, message: unknown, transfer: ArrayBuffer[]): void {
+  if (isNodeEndpoint(endpoint)) {
+    endpoint.postMessage(message, transfer);
+  } else {
+    endpoint.postMessage(message, { transfer });
+  }
+}
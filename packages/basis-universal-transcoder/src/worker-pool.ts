@@ -0,0 +1,211 @@
+import { TranscodedTexture, TranscoderTextureFormat } from './types';
+import { listenToEndpoint, postToEndpoint, TranscoderMessageEndpoint } from './worker-endpoint';
+import { TranscoderWorkerRequest, TranscoderWorkerResponse, WorkerFormatSelection, WorkerTranscodeOptions } from './worker';
+
+/**
+ * A browser Worker or a Node.js worker_threads Worker running exposeTranscoderWorker().
+ */
+export type TranscoderWorkerLike = TranscoderMessageEndpoint & {
+  terminate(): unknown;
+};
+
+export interface TranscoderWorkerPoolOptions {
+  /** Create a worker running exposeTranscoderWorker() */
+  createWorker: () => TranscoderWorkerLike;
+  /** Maximum number of workers, and therefore of transcodes running at the same time */
+  concurrency?: number;
+  /**
+   * Compiled transcoder WASM module shared with every worker.
+   * If omitted, each worker uses the instantiateWasmAsync passed to exposeTranscoderWorker().
+   */
+  wasmModule?: WebAssembly.Module;
+}
+
+export interface PoolTranscodeOptions extends WorkerTranscodeOptions {
+  /**
+   * Transfer the input buffer to the worker instead of copying it.
+   * The caller's buffer is detached afterwards.
+   */
+  transferInput?: boolean;
+}
+
+interface PoolJob {
+  id: number;
+  data: ArrayBuffer;
+  format: TranscoderTextureFormat | WorkerFormatSelection;
+  options: WorkerTranscodeOptions;
+  resolve: (result: TranscodedTexture) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: TranscoderWorkerLike;
+  job: PoolJob | null;
+}
+
+/**
+ * Runs KTX2 transcodes on a pool of workers so the calling thread is never blocked.
+ *
+ * Requests are queued and dispatched to at most `concurrency` workers, which are created on demand.
+ * Every transcoded image is returned in an owned ArrayBuffer transferred back from the worker.
+ */
+export class TranscoderWorkerPool {
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: PoolJob[] = [];
+  private readonly concurrency: number;
+  private nextJobId = 1;
+  private terminated = false;
+
+  constructor(private readonly options: TranscoderWorkerPoolOptions) {
+    this.concurrency = Math.max(1, Math.floor(options.concurrency ?? defaultConcurrency()));
+  }
+
+  /** Number of requests waiting for a free worker */
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  /** Number of requests currently being transcoded */
+  get activeCount(): number {
+    return this.workers.filter((w) => w.job !== null).length;
+  }
+
+  /**
+   * Transcode every level, layer and face of a KTX2 file in a worker
+   *
+   * @param data KTX2 file data
+   * @param format Target format, or the capabilities to select one from in the worker
+   * @returns The transcoded texture, with image data in owned ArrayBuffers
+   */
+  transcode(data: Uint8Array | ArrayBuffer, format: TranscoderTextureFormat | WorkerFormatSelection, options: PoolTranscodeOptions = {}): Promise<TranscodedTexture> {
+    if (this.terminated) {
+      return Promise.reject(new Error('TranscoderWorkerPool already terminated.'));
+    }
+
+    const { transferInput = false, ...workerOptions } = options;
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let buffer: ArrayBuffer;
+    if (transferInput && bytes.buffer instanceof ArrayBuffer &&
+      bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength) {
+      buffer = bytes.buffer;
+    } else {
+      buffer = bytes.slice().buffer;
+    }
+
+    return new Promise<TranscodedTexture>((resolve, reject) => {
+      this.queue.push({
+        id: this.nextJobId++,
+        data: buffer,
+        format,
+        options: workerOptions,
+        resolve,
+        reject,
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers. Queued and running requests are rejected.
+   */
+  terminate(): void {
+    if (this.terminated) {
+      return;
+    }
+    this.terminated = true;
+
+    const error = new Error('TranscoderWorkerPool terminated.');
+    for (const job of this.queue.splice(0)) {
+      job.reject(error);
+    }
+    for (const w of this.workers.splice(0)) {
+      w.job?.reject(error);
+      w.job = null;
+      w.worker.terminate();
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const w = this.getIdleWorker();
+      if (!w) {
+        return;
+      }
+      const job = this.queue.shift()!;
+      w.job = job;
+      const request: TranscoderWorkerRequest = {
+        type: 'transcode',
+        id: job.id,
+        data: job.data,
+        format: job.format,
+        options: job.options,
+      };
+      postToEndpoint(w.worker, request, [job.data]);
+    }
+  }
+
+  private getIdleWorker(): PoolWorker | null {
+    const idle = this.workers.find((w) => w.job === null);
+    if (idle) {
+      return idle;
+    }
+    if (this.workers.length >= this.concurrency) {
+      return null;
+    }
+
+    const w: PoolWorker = { worker: this.options.createWorker(), job: null };
+    listenToEndpoint(w.worker, 'message', (response) => this.onResponse(w, response as TranscoderWorkerResponse));
+    listenToEndpoint(w.worker, 'error', (error) => this.onWorkerError(w, error));
+    listenToEndpoint(w.worker, 'messageerror', () => this.onWorkerError(w, new Error('Transcoder worker response could not be deserialized')));
+    // Node.js workers can exit without an error event, e.g. process.exit() or being killed
+    listenToEndpoint(w.worker, 'exit', (code) => this.onWorkerError(w, new Error(`Transcoder worker exited with code ${code}`)));
+    const init: TranscoderWorkerRequest = { type: 'init', wasmModule: this.options.wasmModule };
+    postToEndpoint(w.worker, init, []);
+    this.workers.push(w);
+    return w;
+  }
+
+  private onResponse(w: PoolWorker, response: TranscoderWorkerResponse): void {
+    const job = w.job;
+    if (!job || job.id !== response.id) {
+      return;
+    }
+    w.job = null;
+    if (response.type === 'result') {
+      job.resolve(response.result);
+    } else {
+      job.reject(new Error(response.message));
+    }
+    this.dispatch();
+  }
+
+  /**
+   * A crashed or exited worker is discarded, its request rejected, and a new worker is created on demand.
+   */
+  private onWorkerError(w: PoolWorker, error: unknown): void {
+    const index = this.workers.indexOf(w);
+    if (index < 0) {
+      return;
+    }
+    this.workers.splice(index, 1);
+    w.worker.terminate();
+    const job = w.job;
+    w.job = null;
+    job?.reject(error instanceof Error ? error : new Error(getErrorMessage(error) ?? 'Transcoder worker failed'));
+    this.dispatch();
+  }
+}
+
+/**
+ * Message of a browser ErrorEvent or other error-like value
+ */
+function getErrorMessage(error: unknown): string | undefined {
+  return typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string'
+    ? error.message
+    : undefined;
+}
+
+function defaultConcurrency(): number {
+  const hardwareConcurrency = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  return Math.min(4, Math.max(1, (hardwareConcurrency ?? 4) - 1));
+}
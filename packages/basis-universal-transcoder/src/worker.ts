@@ -0,0 +1,119 @@
+import { BasisUniversal, InstantiateWasmAsync } from './index';
+import { KTX2Transcoder } from './transcoder';
+import { DecodeFlags, TranscodedTexture, TranscoderTextureFormat } from './types';
+import { FormatSelectionPreferences, selectTranscodeFormat, TextureCapabilities, TextureUsage } from './format-selection';
+import { listenToEndpoint, postToEndpoint, TranscoderMessageEndpoint } from './worker-endpoint';
+
+/**
+ * Worker side of TranscoderWorkerPool.
+ *
+ * Works with both browser Web Workers (`self`) and Node.js worker_threads (`parentPort`).
+ */
+
+export interface WorkerTranscodeOptions {
+  decodeFlags?: DecodeFlags;
+}
+
+/**
+ * Let the worker pick the target format once the file is parsed, with selectTranscodeFormat().
+ * The first candidate the WASM build can produce is used, TranscodedTexture.format reports it.
+ */
+export interface WorkerFormatSelection {
+  capabilities: TextureCapabilities;
+  usage?: TextureUsage;
+  preferences?: FormatSelectionPreferences;
+}
+
+export type TranscoderWorkerRequest =
+  | { type: 'init'; wasmModule?: WebAssembly.Module }
+  | { type: 'transcode'; id: number; data: ArrayBuffer; format: TranscoderTextureFormat | WorkerFormatSelection; options: WorkerTranscodeOptions };
+
+export type TranscoderWorkerResponse =
+  | { type: 'result'; id: number; result: TranscodedTexture }
+  | { type: 'error'; id: number; message: string };
+
+function selectWorkerFormat(basis: BasisUniversal, transcoder: KTX2Transcoder, selection: WorkerFormatSelection): TranscoderTextureFormat {
+  const { width, height } = transcoder.getHeaderInfo();
+  const basisFormat = transcoder.getBasisTextureFormat();
+  const candidates = selectTranscodeFormat(selection.capabilities, {
+    basisFormat,
+    hasAlpha: transcoder.getImageLevelInfo(0, 0, 0)?.alphaFlag ?? false,
+    usage: selection.usage,
+    width,
+    height,
+  }, selection.preferences);
+  const format = candidates.find((candidate) => basis.isFormatTranscodable(candidate, basisFormat));
+  if (format === undefined) {
+    throw new Error('No transcode target format is both supported by the GPU and transcodable by this build');
+  }
+  return format;
+}
+
+function createModuleInstantiator(wasmModule: WebAssembly.Module): InstantiateWasmAsync {
+  return async (imports) => {
+    const instance = await WebAssembly.instantiate(wasmModule, imports);
+    return { instance, module: wasmModule };
+  };
+}
+
+/**
+ * Serve TranscoderWorkerPool requests from inside a worker.
+ *
+ * Browser worker script:
+ *   exposeTranscoderWorker(self);
+ * Node.js worker script:
+ *   exposeTranscoderWorker(parentPort!, instantiateWasmAsync);
+ *
+ * @param scope The worker global scope or Node.js parentPort
+ * @param instantiateWasmAsync Loader used when the pool does not send a compiled WebAssembly.Module
+ */
+export function exposeTranscoderWorker(scope: TranscoderMessageEndpoint, instantiateWasmAsync?: InstantiateWasmAsync): void {
+  let basisPromise: Promise<BasisUniversal> | null = null;
+  let transcoder: KTX2Transcoder | null = null;
+  let wasmModule: WebAssembly.Module | undefined;
+
+  const getBasis = () => {
+    if (!basisPromise) {
+      const instantiate = wasmModule ? createModuleInstantiator(wasmModule) : instantiateWasmAsync;
+      if (!instantiate) {
+        return Promise.reject(new Error('No WASM module or instantiateWasmAsync available in transcoder worker'));
+      }
+      basisPromise = BasisUniversal.getInstance(instantiate);
+    }
+    return basisPromise;
+  };
+
+  listenToEndpoint(scope, 'message', async (value) => {
+    const request = value as TranscoderWorkerRequest;
+    if (request.type === 'init') {
+      wasmModule = request.wasmModule;
+      getBasis().catch(() => {
+        // Retried and reported with the first transcode request
+        basisPromise = null;
+      });
+      return;
+    }
+
+    try {
+      const basis = await getBasis();
+      transcoder ??= basis.createKTX2Transcoder();
+      if (!transcoder.init(new Uint8Array(request.data))) {
+        throw new Error('Failed to initialize KTX2 transcoder');
+      }
+      const format = typeof request.format === 'number' ? request.format : selectWorkerFormat(basis, transcoder, request.format);
+      const result = transcoder.transcodeAll(format, request.options);
+      if (!result) {
+        throw new Error('Transcoding failed');
+      }
+      const response: TranscoderWorkerResponse = { type: 'result', id: request.id, result };
+      postToEndpoint(scope, response, result.images.flat(2).map((image) => image.data.buffer as ArrayBuffer));
+    } catch (e) {
+      const response: TranscoderWorkerResponse = {
+        type: 'error',
+        id: request.id,
+        message: e instanceof Error ? e.message : String(e),
+      };
+      postToEndpoint(scope, response, []);
+    }
+  });
+}
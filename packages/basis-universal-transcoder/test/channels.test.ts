@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { getSelectableChannelCount, validateChannels } from '../src/channels';
+import { BasisTextureFormat, Channel, TranscoderTextureFormat } from '../src/types';
+
+const singleChannelFormats = [TranscoderTextureFormat.cTFBC4_R, TranscoderTextureFormat.cTFETC2_EAC_R11];
+const twoChannelFormats = [TranscoderTextureFormat.cTFBC5_RG, TranscoderTextureFormat.cTFETC2_EAC_RG11];
+
+describe('getSelectableChannelCount', () => {
+  it.each(singleChannelFormats)('is 1 for format %i', (format) => {
+    expect(getSelectableChannelCount(format)).toBe(1);
+  });
+
+  it.each(twoChannelFormats)('is 2 for format %i', (format) => {
+    expect(getSelectableChannelCount(format)).toBe(2);
+  });
+
+  it('is 0 for every other format', () => {
+    const selectable = [...singleChannelFormats, ...twoChannelFormats];
+    const others = Object.values(TranscoderTextureFormat)
+      .filter((format): format is TranscoderTextureFormat => typeof format === 'number')
+      .filter((format) => !selectable.includes(format));
+    for (const format of others) {
+      expect(getSelectableChannelCount(format)).toBe(0);
+    }
+  });
+});
+
+describe('validateChannels', () => {
+  describe.each(singleChannelFormats)('single channel format %i', (format) => {
+    it('accepts one channel', () => {
+      for (const channel of [Channel.R, Channel.G, Channel.B, Channel.A]) {
+        expect(validateChannels([channel], format)).toBeNull();
+      }
+      expect(validateChannels([Channel.G, undefined], format)).toBeNull();
+    });
+
+    it('rejects two channels', () => {
+      expect(validateChannels([Channel.R, Channel.A], format)).toMatch(/has 1 channel\(s\), 2 given/);
+    });
+  });
+
+  describe.each(twoChannelFormats)('two channel format %i', (format) => {
+    it('accepts one or two channels', () => {
+      expect(validateChannels([Channel.R], format)).toBeNull();
+      expect(validateChannels([Channel.R, Channel.A], format)).toBeNull();
+      expect(validateChannels([Channel.G, Channel.G], format)).toBeNull();
+    });
+
+    it('rejects more than two channels', () => {
+      expect(validateChannels([Channel.R, Channel.G, Channel.B] as Channel[], format)).toMatch(/has 2 channel\(s\), 3 given/);
+    });
+  });
+
+  it.each([...singleChannelFormats, ...twoChannelFormats])('requires the first channel for format %i', (format) => {
+    expect(validateChannels([], format)).toBe('The first channel is required.');
+    expect(validateChannels([undefined, Channel.G], format)).toBe('The first channel is required.');
+  });
+
+  it.each([...singleChannelFormats, ...twoChannelFormats])('rejects invalid channels for format %i', (format) => {
+    expect(validateChannels([4 as Channel], format)).toMatch(/Invalid channel 4/);
+    expect(validateChannels([-1 as Channel], format)).toMatch(/Invalid channel -1/);
+    expect(validateChannels([0.5 as Channel], format)).toMatch(/Invalid channel 0.5/);
+  });
+
+  it.each([
+    TranscoderTextureFormat.cTFETC1_RGB,
+    TranscoderTextureFormat.cTFETC2_RGBA,
+    TranscoderTextureFormat.cTFBC1_RGB,
+    TranscoderTextureFormat.cTFBC7_RGBA,
+    TranscoderTextureFormat.cTFASTC_4x4_RGBA,
+    TranscoderTextureFormat.cTFRGBA32,
+  ])('rejects channel selection for format %i', (format) => {
+    expect(validateChannels([Channel.R], format)).toMatch(/does not support channel selection/);
+  });
+
+  it('accepts UASTC sources only', () => {
+    const format = TranscoderTextureFormat.cTFBC5_RG;
+    expect(validateChannels([Channel.R, Channel.A], format, BasisTextureFormat.cUASTC4x4)).toBeNull();
+    for (const basisFormat of [BasisTextureFormat.cETC1S, BasisTextureFormat.cUASTC_HDR_4x4, BasisTextureFormat.cASTC_HDR_6x6]) {
+      expect(validateChannels([Channel.R, Channel.A], format, basisFormat)).toMatch(/requires a UASTC LDR source/);
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { FormatSelectionPreferences, selectTranscodeFormat, TextureCapabilities, TextureSourceInfo, TextureUsage } from '../src/format-selection';
+import { BasisTextureFormat, TranscoderTextureFormat as F } from '../src/types';
+
+const etc1s = (hasAlpha = false, usage?: TextureUsage): TextureSourceInfo => ({ basisFormat: BasisTextureFormat.cETC1S, hasAlpha, usage });
+const uastc = (hasAlpha = false, usage?: TextureUsage): TextureSourceInfo => ({ basisFormat: BasisTextureFormat.cUASTC4x4, hasAlpha, usage });
+const ldr: TextureCapabilities = { astc: true, bptc: true, s3tc: true, rgtc: true, etc1: true, etc2: true, pvrtc: true };
+
+interface SelectionCase {
+  name: string;
+  capabilities: TextureCapabilities;
+  source: TextureSourceInfo;
+  preferences?: FormatSelectionPreferences;
+  expected: F[];
+}
+
+const cases: SelectionCase[] = [
+  // Color
+  { name: 'ETC1S on every LDR format', capabilities: ldr, source: etc1s(), expected: [F.cTFETC1_RGB, F.cTFBC1_RGB, F.cTFBC7_RGBA, F.cTFASTC_4x4_RGBA, F.cTFPVRTC1_4_RGB, F.cTFRGBA32] },
+  { name: 'UASTC on every LDR format', capabilities: ldr, source: uastc(), expected: [F.cTFASTC_4x4_RGBA, F.cTFBC7_RGBA, F.cTFETC1_RGB, F.cTFBC1_RGB, F.cTFPVRTC1_4_RGB, F.cTFRGBA32] },
+  { name: 'ETC1S on ETC2 only', capabilities: { etc2: true }, source: etc1s(), expected: [F.cTFETC1_RGB, F.cTFRGBA32] },
+  { name: 'UASTC on ETC2 only', capabilities: { etc2: true }, source: uastc(), expected: [F.cTFETC1_RGB, F.cTFRGBA32] },
+  { name: 'ETC1S on S3TC only', capabilities: { s3tc: true }, source: etc1s(), expected: [F.cTFBC1_RGB, F.cTFRGBA32] },
+  { name: 'UASTC on S3TC only', capabilities: { s3tc: true }, source: uastc(), expected: [F.cTFBC1_RGB, F.cTFRGBA32] },
+  { name: 'ETC1S on BPTC only', capabilities: { bptc: true }, source: etc1s(), expected: [F.cTFBC7_RGBA, F.cTFRGBA32] },
+  { name: 'no GPU formats', capabilities: {}, source: uastc(), expected: [F.cTFRGBA32] },
+
+  // Alpha
+  { name: 'ETC1S alpha on every LDR format', capabilities: ldr, source: etc1s(true), expected: [F.cTFETC2_RGBA, F.cTFBC3_RGBA, F.cTFBC7_RGBA, F.cTFASTC_4x4_RGBA, F.cTFPVRTC1_4_RGBA, F.cTFRGBA32] },
+  { name: 'UASTC alpha on every LDR format', capabilities: ldr, source: uastc(true), expected: [F.cTFASTC_4x4_RGBA, F.cTFBC7_RGBA, F.cTFETC2_RGBA, F.cTFBC3_RGBA, F.cTFPVRTC1_4_RGBA, F.cTFRGBA32] },
+  { name: 'alpha on ETC1 only', capabilities: { etc1: true }, source: etc1s(true), expected: [F.cTFRGBA32] },
+  { name: 'alpha on ETC2 only', capabilities: { etc2: true }, source: etc1s(true), expected: [F.cTFETC2_RGBA, F.cTFRGBA32] },
+  { name: 'alpha on S3TC only', capabilities: { s3tc: true }, source: uastc(true), expected: [F.cTFBC3_RGBA, F.cTFRGBA32] },
+
+  // Channel data
+  { name: 'normal map on every LDR format', capabilities: ldr, source: uastc(false, TextureUsage.NormalMap), expected: [F.cTFBC5_RG, F.cTFETC2_EAC_RG11, F.cTFASTC_4x4_RGBA, F.cTFBC7_RGBA, F.cTFETC1_RGB, F.cTFBC1_RGB, F.cTFPVRTC1_4_RGB, F.cTFRGBA32] },
+  { name: 'normal map on ETC2 only', capabilities: { etc2: true }, source: etc1s(false, TextureUsage.NormalMap), expected: [F.cTFETC2_EAC_RG11, F.cTFETC1_RGB, F.cTFRGBA32] },
+  { name: 'normal map without RGTC or ETC2', capabilities: { s3tc: true }, source: uastc(false, TextureUsage.NormalMap), expected: [F.cTFBC1_RGB, F.cTFRGBA32] },
+  { name: 'two channels on RGTC only', capabilities: { rgtc: true }, source: uastc(false, TextureUsage.TwoChannel), expected: [F.cTFBC5_RG, F.cTFRGBA32] },
+  { name: 'single channel on every LDR format', capabilities: ldr, source: etc1s(false, TextureUsage.SingleChannel), expected: [F.cTFBC4_R, F.cTFETC2_EAC_R11, F.cTFETC1_RGB, F.cTFBC1_RGB, F.cTFBC7_RGBA, F.cTFASTC_4x4_RGBA, F.cTFPVRTC1_4_RGB, F.cTFRGBA32] },
+  { name: 'single channel on ETC2 only', capabilities: { etc2: true }, source: uastc(false, TextureUsage.SingleChannel), expected: [F.cTFETC2_EAC_R11, F.cTFETC1_RGB, F.cTFRGBA32] },
+
+  // HDR
+  { name: 'UASTC HDR', capabilities: { ...ldr, astcHDR: true, halfFloat: true }, source: { basisFormat: BasisTextureFormat.cUASTC_HDR_4x4, hasAlpha: false }, expected: [F.cTFASTC_HDR_4x4_RGBA, F.cTFBC6H, F.cTFRGBA_HALF] },
+  { name: 'ASTC HDR 6x6', capabilities: { astcHDR: true, bptc: true }, source: { basisFormat: BasisTextureFormat.cASTC_HDR_6x6, hasAlpha: false }, expected: [F.cTFASTC_HDR_6x6_RGBA, F.cTFBC6H] },
+  { name: 'ASTC HDR 6x6 intermediate', capabilities: { halfFloat: true }, source: { basisFormat: BasisTextureFormat.cASTC_HDR_6x6_INTERMEDIATE, hasAlpha: false }, expected: [F.cTFRGBA_HALF] },
+  { name: 'HDR without HDR formats', capabilities: { astc: true, s3tc: true, etc2: true }, source: { basisFormat: BasisTextureFormat.cUASTC_HDR_4x4, hasAlpha: false }, expected: [] },
+  { name: 'HDR without uncompressed fallbacks', capabilities: { halfFloat: true }, source: { basisFormat: BasisTextureFormat.cUASTC_HDR_4x4, hasAlpha: false }, preferences: { allowUncompressed: false }, expected: [] },
+
+  // PVRTC1 and fallbacks
+  { name: 'PVRTC1 for square power-of-two sizes', capabilities: { pvrtc: true }, source: { ...etc1s(), width: 256, height: 256 }, expected: [F.cTFPVRTC1_4_RGB, F.cTFRGBA32] },
+  { name: 'no PVRTC1 for non-square sizes', capabilities: { pvrtc: true }, source: { ...etc1s(), width: 256, height: 128 }, expected: [F.cTFRGBA32] },
+  { name: 'no PVRTC1 for non power-of-two sizes', capabilities: { pvrtc: true }, source: { ...etc1s(), width: 100, height: 100 }, expected: [F.cTFRGBA32] },
+  { name: 'no PVRTC1 when disallowed', capabilities: { pvrtc: true }, source: etc1s(), preferences: { allowPVRTC: false }, expected: [F.cTFRGBA32] },
+  { name: 'low memory fallback', capabilities: {}, source: etc1s(), preferences: { lowMemoryFallback: true }, expected: [F.cTFRGB565] },
+  { name: 'low memory fallback with alpha', capabilities: {}, source: etc1s(true), preferences: { lowMemoryFallback: true }, expected: [F.cTFRGBA4444] },
+  { name: 'no uncompressed fallback', capabilities: {}, source: uastc(), preferences: { allowUncompressed: false }, expected: [] },
+];
+
+describe('selectTranscodeFormat', () => {
+  it.each(cases)('$name', ({ capabilities, source, preferences, expected }) => {
+    expect(selectTranscodeFormat(capabilities, source, preferences)).toEqual(expected);
+  });
+});
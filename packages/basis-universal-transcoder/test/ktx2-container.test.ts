@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { KTX2ContainerSection, parseKTX2Container } from '../src/ktx2-container';
+import { writeKTX2 } from '../src/texture-writers';
+import { KTX2ColorModel } from '../src/data-format-descriptor';
+import { TextureKind, TranscodedImage, TranscodedTexture, TranscoderTextureFormat } from '../src/types';
+
+/** An RGBA32 4x4 texture with a full mip chain, each level filled with its level index */
+function createTexture(): TranscodedTexture {
+  const images: TranscodedImage[][][] = [4, 2, 1].map((size, level) => [[{
+    level,
+    layer: 0,
+    face: 0,
+    width: size,
+    height: size,
+    data: new Uint8Array(size * size * 4).fill(level),
+  }]]);
+  return {
+    format: TranscoderTextureFormat.cTFRGBA32,
+    kind: TextureKind.Texture2D,
+    width: 4,
+    height: 4,
+    levelCount: 3,
+    layerCount: 1,
+    faceCount: 1,
+    images,
+    byteLength: 84,
+  };
+}
+
+const file = writeKTX2(createTexture());
+const { header } = parseKTX2Container(file);
+const levelIndexEnd = 80 + 3 * 24;
+const dfdEnd = header!.dfdByteOffset + header!.dfdByteLength;
+const kvdEnd = header!.kvdByteOffset + header!.kvdByteLength;
+
+const sectionsMissing = (length: number) => parseKTX2Container(file.subarray(0, length)).missing.map((range) => range.section);
+
+describe('parseKTX2Container', () => {
+  it('parses a complete file', () => {
+    const container = parseKTX2Container(file);
+    expect(container.isComplete).toBe(true);
+    expect(container.missing).toEqual([]);
+    expect(container.header?.levels).toBe(3);
+    expect(container.levels.map((entry) => entry.byteLength)).toEqual([64, 16, 4]);
+    expect(container.dataFormatDescriptor?.colorModel).toBe(KTX2ColorModel.RGBSDA);
+    expect(container.keyValueData.writer).toBe('basis-universal-transcoder');
+    expect(container.sgdByteLength).toBe(0);
+  });
+
+  it('reports the header as missing when the data is shorter than a header', () => {
+    const container = parseKTX2Container(file.subarray(0, 79));
+    expect(container.header).toBeNull();
+    expect(container.levels).toEqual([]);
+    expect(container.missing).toEqual([{ section: KTX2ContainerSection.Header, byteOffset: 0, byteLength: 80 }]);
+    expect(container.isComplete).toBe(false);
+  });
+
+  it('reads the header alone and reports the level index, DFD and KVD as missing', () => {
+    const container = parseKTX2Container(file.subarray(0, 80));
+    expect(container.header).toEqual(header);
+    expect(container.levels).toEqual([]);
+    expect(container.dataFormatDescriptor).toBeNull();
+    expect(container.keyValueData.size).toBe(0);
+    expect(container.missing.map((range) => range.section)).toEqual([
+      KTX2ContainerSection.LevelIndex,
+      KTX2ContainerSection.DataFormatDescriptor,
+      KTX2ContainerSection.KeyValueData,
+    ]);
+  });
+
+  it('keeps the complete level index entries of a truncated level index', () => {
+    const container = parseKTX2Container(file.subarray(0, levelIndexEnd - 1));
+    expect(container.levels).toHaveLength(2);
+    expect(container.missing[0]).toEqual({ section: KTX2ContainerSection.LevelIndex, byteOffset: 80, byteLength: 72 });
+    // Level data is only reported for the entries that were read
+    expect(container.missing.filter((range) => range.section === KTX2ContainerSection.LevelData).map((range) => range.level))
+      .toEqual([0, 1]);
+  });
+
+  it('reports a truncated DFD as missing', () => {
+    const container = parseKTX2Container(file.subarray(0, dfdEnd - 1));
+    expect(container.levels).toHaveLength(3);
+    expect(container.dataFormatDescriptor).toBeNull();
+    expect(sectionsMissing(dfdEnd - 1)).toEqual([
+      KTX2ContainerSection.DataFormatDescriptor,
+      KTX2ContainerSection.KeyValueData,
+      KTX2ContainerSection.LevelData,
+      KTX2ContainerSection.LevelData,
+      KTX2ContainerSection.LevelData,
+    ]);
+  });
+
+  it('reports a truncated KVD as missing', () => {
+    const container = parseKTX2Container(file.subarray(0, kvdEnd - 1));
+    expect(container.dataFormatDescriptor?.colorModel).toBe(KTX2ColorModel.RGBSDA);
+    expect(container.keyValueData.size).toBe(0);
+    expect(container.missing[0]).toEqual({
+      section: KTX2ContainerSection.KeyValueData,
+      byteOffset: header!.kvdByteOffset,
+      byteLength: header!.kvdByteLength,
+    });
+  });
+
+  it('reports only the level data that is not present yet', () => {
+    expect(parseKTX2Container(file.subarray(0, kvdEnd)).missing.map((range) => range.level)).toEqual([0, 1, 2]);
+    // Levels are stored smallest first, so the smallest level arrives first
+    const container = parseKTX2Container(file.subarray(0, file.length - 1));
+    expect(container.keyValueData.writer).toBe('basis-universal-transcoder');
+    const { byteOffset, byteLength } = container.levels[0];
+    expect(container.missing).toEqual([{ section: KTX2ContainerSection.LevelData, level: 0, byteOffset, byteLength }]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryRangeFetcher, KTX2RangeFetcher, ProgressiveKTX2Loader, ProgressiveKTX2Level } from '../src/progressive-loader';
+import { KTX2SupercompressionScheme } from '../src/ktx2-header';
+import { KTX2Transcoder } from '../src/transcoder';
+import { TranscodeError } from '../src/errors';
+import { TranscodeOptions, TranscoderTextureFormat } from '../src/types';
+
+const SGD_OFFSET = 160;
+const SGD_LENGTH = 40;
+/** Byte offset and length of levels 0 to 2, stored smallest first after the global data */
+const LEVELS: [number, number][] = [[300, 100], [240, 60], [200, 40]];
+const FILE_LENGTH = 400;
+
+/** A 16x16 BasisLZ KTX2 file with 3 levels. The payload bytes are not real BasisLZ data. */
+function createFile(): Uint8Array {
+  const file = new Uint8Array(FILE_LENGTH);
+  file.set([0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const view = new DataView(file.buffer);
+  view.setUint32(20, 16, true);
+  view.setUint32(24, 16, true);
+  view.setUint32(36, 1, true);
+  view.setUint32(40, LEVELS.length, true);
+  view.setUint32(44, KTX2SupercompressionScheme.BasisLZ, true);
+  view.setUint32(64, SGD_OFFSET, true);
+  view.setUint32(72, SGD_LENGTH, true);
+  LEVELS.forEach(([offset, length], level) => {
+    view.setUint32(80 + level * 24, offset, true);
+    view.setUint32(88 + level * 24, length, true);
+  });
+  for (let i = SGD_OFFSET; i < FILE_LENGTH; i++) {
+    file[i] = i & 0xff;
+  }
+  return file;
+}
+
+/**
+ * Stands in for the WASM transcoder, keeping its own copy of the file like the WASM heap copy
+ */
+function createFakeTranscoder() {
+  const fake = {
+    inits: 0,
+    heap: new Uint8Array(0),
+    initOrThrow(data: Uint8Array) {
+      fake.inits++;
+      fake.heap = data.slice();
+    },
+    startTranscodingOrThrow() { },
+    getHeaderInfo: () => ({ layers: 0, faces: 1 }),
+    writeFileBytes(byteOffset: number, data: Uint8Array) {
+      fake.heap.set(data, byteOffset);
+    },
+    transcodeImageLevelOrThrow({ level = 0 }: TranscodeOptions) {
+      const [offset, length] = LEVELS[level];
+      // Fails like the real transcoder would if the level data had not been written
+      if (fake.heap[offset] !== (offset & 0xff) || fake.heap[offset + length - 1] !== ((offset + length - 1) & 0xff)) {
+        throw new Error(`Level ${level} transcoded before its data was written.`);
+      }
+      return { width: 16 >> level, height: 16 >> level, data: new Uint8Array([level]) };
+    },
+  };
+  return fake;
+}
+
+async function loadAll(fetchRange: KTX2RangeFetcher) {
+  const transcoder = createFakeTranscoder();
+  const loader = new ProgressiveKTX2Loader(transcoder as unknown as KTX2Transcoder, fetchRange);
+  const levels: ProgressiveKTX2Level[] = [];
+  for await (const level of loader.load(TranscoderTextureFormat.cTFRGBA32)) {
+    levels.push(level);
+  }
+  return { transcoder, levels };
+}
+
+describe('ProgressiveKTX2Loader', () => {
+  it('emits the levels smallest to largest', async () => {
+    const { transcoder, levels } = await loadAll(createMemoryRangeFetcher(createFile()));
+    expect(levels.map(({ level, width, height }) => [level, width, height])).toEqual([[2, 4, 4], [1, 8, 8], [0, 16, 16]]);
+    expect(levels.map((level) => level.images[0][0].data)).toEqual([new Uint8Array([2]), new Uint8Array([1]), new Uint8Array([0])]);
+    expect(transcoder.inits).toBe(1);
+    expect(transcoder.heap).toEqual(createFile());
+  });
+
+  it('fetches the BasisLZ global data before any level', async () => {
+    const file = createFile();
+    const fetched: [number, number][] = [];
+    const memory = createMemoryRangeFetcher(file);
+    const { transcoder } = await loadAll((byteOffset, byteLength) => {
+      fetched.push([byteOffset, byteLength]);
+      return memory(byteOffset, byteLength);
+    });
+
+    const firstLevelFetch = fetched.findIndex(([byteOffset]) => LEVELS.some(([offset]) => offset === byteOffset));
+    const sgdFetch = fetched.findIndex(([byteOffset, byteLength]) =>
+      byteOffset <= SGD_OFFSET && byteOffset + byteLength >= SGD_OFFSET + SGD_LENGTH);
+    expect(sgdFetch).toBeGreaterThanOrEqual(0);
+    expect(sgdFetch).toBeLessThan(firstLevelFetch);
+    expect(fetched.slice(firstLevelFetch)).toEqual([LEVELS[2], LEVELS[1], LEVELS[0]]);
+    expect(transcoder.heap.subarray(SGD_OFFSET, SGD_OFFSET + SGD_LENGTH)).toEqual(file.subarray(SGD_OFFSET, SGD_OFFSET + SGD_LENGTH));
+  });
+
+  it('rejects when the fetcher returns fewer bytes than requested', async () => {
+    const file = createFile();
+    const memory = createMemoryRangeFetcher(file);
+    const short: KTX2RangeFetcher = async (byteOffset, byteLength) =>
+      (await memory(byteOffset, byteLength)).subarray(0, byteOffset === LEVELS[1][0] ? byteLength - 1 : byteLength);
+
+    const levels: number[] = [];
+    const loader = new ProgressiveKTX2Loader(createFakeTranscoder() as unknown as KTX2Transcoder, short);
+    await expect((async () => {
+      for await (const level of loader.load(TranscoderTextureFormat.cTFRGBA32)) {
+        levels.push(level.level);
+      }
+    })()).rejects.toThrow('Range fetch returned 59 bytes at offset 240, 60 expected.');
+    expect(levels).toEqual([2]);
+  });
+
+  it('rejects a file truncated inside the level data', async () => {
+    await expect(loadAll(createMemoryRangeFetcher(createFile().subarray(0, FILE_LENGTH - 1))))
+      .rejects.toThrow('Range fetch returned 99 bytes at offset 300, 100 expected.');
+  });
+
+  it('rejects a file truncated inside the header', async () => {
+    await expect(loadAll(createMemoryRangeFetcher(createFile().subarray(0, 40)))).rejects.toThrow(/40 bytes at offset 0/);
+  });
+
+  it('rejects data that is not a KTX2 file', async () => {
+    await expect(loadAll(createMemoryRangeFetcher(new Uint8Array(FILE_LENGTH)))).rejects.toBeInstanceOf(TranscodeError);
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, expect, it } from 'vitest';
+import { decodeToRGBA } from '../src/rgba-decoder';
+import { TranscoderTextureFormat } from '../src/types';
+
+// The blocks below are assembled field by field from the format specifications and the
+// expected texels worked out by hand, so each vector pins down one part of a decoder.
+
+/** Set count bits of value at a bit position, counting from the lowest bit of byte 0 */
+function setBits(block: Uint8Array, position: number, count: number, value: number): void {
+  for (let i = 0; i < count; i++) {
+    const p = position + i;
+    if ((value >>> i) & 1) {
+      block[p >> 3] |= 1 << (p & 7);
+    }
+  }
+}
+
+/** A 16-byte block from [value, bitCount] fields, packed from bit 0 up */
+function packBits(fields: [number, number][]): Uint8Array {
+  const block = new Uint8Array(16);
+  let position = 0;
+  for (const [value, count] of fields) {
+    setBits(block, position, count, value);
+    position += count;
+  }
+  expect(position).toBe(128);
+  return block;
+}
+
+function decode(format: TranscoderTextureFormat, data: Uint8Array, width = 4, height = 4): Uint8Array {
+  return decodeToRGBA({ data, width, height }, format);
+}
+
+function texel(rgba: Uint8Array, width: number, x: number, y: number): number[] {
+  const offset = (y * width + x) * 4;
+  return Array.from(rgba.subarray(offset, offset + 4));
+}
+
+describe('decodeToRGBA', () => {
+  it('rejects the HDR formats', () => {
+    for (const format of [TranscoderTextureFormat.cTFBC6H, TranscoderTextureFormat.cTFASTC_HDR_4x4_RGBA, TranscoderTextureFormat.cTFRGBA_HALF]) {
+      expect(() => decode(format, new Uint8Array(128))).toThrow(/cannot be decoded to RGBA8/);
+    }
+  });
+
+  it('rejects data that is too short', () => {
+    expect(() => decode(TranscoderTextureFormat.cTFBC7_RGBA, new Uint8Array(15))).toThrow(/4x4 .* needs 16 bytes, 15 given/);
+    // Partial edge blocks still take a whole block
+    expect(() => decode(TranscoderTextureFormat.cTFBC7_RGBA, new Uint8Array(48), 5, 5)).toThrow(/needs 64 bytes, 48 given/);
+    expect(() => decode(TranscoderTextureFormat.cTFFXT1_RGB, new Uint8Array(16), 9, 4)).toThrow(/needs 32 bytes, 16 given/);
+    expect(() => decode(TranscoderTextureFormat.cTFPVRTC1_4_RGBA, new Uint8Array(8), 2, 2)).not.toThrow();
+    expect(() => decode(TranscoderTextureFormat.cTFRGBA32, new Uint8Array(63))).toThrow(/needs 64 bytes, 63 given/);
+  });
+});
+
+describe('BC7', () => {
+  const decodeBC7 = (block: Uint8Array) => decode(TranscoderTextureFormat.cTFBC7_RGBA, block);
+
+  it('decodes mode 6: one subset, RGBA endpoints with a p-bit each and 4-bit indices', () => {
+    const block = packBits([
+      [1 << 6, 7],
+      [0, 7], [127, 7], // R
+      [0, 7], [127, 7], // G
+      [0, 7], [127, 7], // B
+      [127, 7], [127, 7], // A
+      [0, 1], [1, 1], // p-bits: endpoint 0 is (0, 0, 0, 254), endpoint 1 is white
+      [0, 3], // anchor texel 0
+      ...Array.from({ length: 15 }, (_, i): [number, number] => [i + 1, 4]),
+    ]);
+    const rgba = decodeBC7(block);
+    expect(texel(rgba, 4, 0, 0)).toEqual([0, 0, 0, 254]);
+    expect(texel(rgba, 4, 1, 0)).toEqual([16, 16, 16, 254]); // weight 4
+    expect(texel(rgba, 4, 0, 2)).toEqual([135, 135, 135, 255]); // weight 34
+    expect(texel(rgba, 4, 3, 3)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('decodes mode 1: two subsets from the partition table, shared p-bits and a second anchor', () => {
+    // Partition 34 alternates the subsets in a checkerboard of 1x2 cells, its second anchor is texel 6
+    const indices: [number, number][] = Array.from({ length: 16 }, (_, texel) => [0, texel === 0 || texel === 6 ? 2 : 3]);
+    indices[6] = [3, 2];
+    indices[7] = [7, 3];
+    const block = packBits([
+      [0b10, 2],
+      [34, 6],
+      [63, 6], [0, 6], [0, 6], [0, 6], // R of subset 0 endpoints 0, 1 and subset 1 endpoints 0, 1
+      [0, 6], [63, 6], [0, 6], [0, 6], // G
+      [0, 6], [0, 6], [63, 6], [0, 6], // B
+      [0, 1], [1, 1],
+      ...indices,
+    ]);
+    const rgba = decodeBC7(block);
+    const red = [253, 0, 0, 255];
+    const blue = [2, 2, 255, 255];
+    expect(texel(rgba, 4, 0, 0)).toEqual(red);
+    expect(texel(rgba, 4, 1, 0)).toEqual(blue);
+    expect(texel(rgba, 4, 2, 0)).toEqual(red);
+    expect(texel(rgba, 4, 0, 1)).toEqual(blue);
+    // Texel 6 is subset 1 at index 3 of 8, between blue and (2, 2, 2)
+    expect(texel(rgba, 4, 2, 1)).toEqual([2, 2, 148, 255]);
+    // Texel 7 is subset 0 at index 7, its second endpoint
+    expect(texel(rgba, 4, 3, 1)).toEqual([0, 253, 0, 255]);
+    expect(texel(rgba, 4, 0, 2)).toEqual(red);
+  });
+
+  const mode5Block = (rotation: number) => packBits([
+    [1 << 5, 6],
+    [rotation, 2],
+    [127, 7], [0, 7], // R
+    [0, 7], [0, 7], // G
+    [0, 7], [127, 7], // B
+    [0, 8], [255, 8], // A
+    [0, 1], [3, 2], ...Array.from({ length: 14 }, (): [number, number] => [0, 2]), // color indices
+    [0, 1], [1, 2], ...Array.from({ length: 14 }, (): [number, number] => [0, 2]), // alpha indices
+  ]);
+
+  it('decodes mode 5: separate color and alpha indices', () => {
+    const rgba = decodeBC7(mode5Block(0));
+    expect(texel(rgba, 4, 0, 0)).toEqual([255, 0, 0, 0]);
+    expect(texel(rgba, 4, 1, 0)).toEqual([0, 0, 255, 84]);
+    expect(texel(rgba, 4, 2, 0)).toEqual([255, 0, 0, 0]);
+  });
+
+  it('swaps alpha with the rotated channel', () => {
+    const rgba = decodeBC7(mode5Block(1));
+    expect(texel(rgba, 4, 0, 0)).toEqual([0, 0, 0, 255]);
+    expect(texel(rgba, 4, 1, 0)).toEqual([84, 0, 255, 0]);
+  });
+
+  it('decodes reserved blocks to transparent black', () => {
+    expect(decodeBC7(new Uint8Array(16))).toEqual(new Uint8Array(64));
+  });
+});
+
+describe('ASTC 4x4', () => {
+  const decodeASTC = (block: Uint8Array) => decode(TranscoderTextureFormat.cTFASTC_4x4_RGBA, block);
+  const magenta = [255, 0, 255, 255];
+
+  /**
+   * A single partition block with a 4x4 weight grid and direct RGB endpoints (0, 0, 0) and (255, 255, 255),
+   * which take 8 bits each. The weight stream is written bit-reversed from the top of the block.
+   */
+  function createBlock(blockMode: number, weightStream: [number, number][], endpointMode = 8): Uint8Array {
+    const block = new Uint8Array(16);
+    setBits(block, 0, 11, blockMode);
+    setBits(block, 13, 4, endpointMode);
+    [0, 255, 0, 255, 0, 255].forEach((value, i) => setBits(block, 17 + i * 8, 8, value));
+    let position = 0;
+    for (const [value, count] of weightStream) {
+      for (let i = 0; i < count; i++, position++) {
+        setBits(block, 127 - position, 1, (value >>> i) & 1);
+      }
+    }
+    return block;
+  }
+
+  const gray = (rgba: Uint8Array) => Array.from({ length: 16 }, (_, i) => rgba[i * 4]);
+
+  it('decodes trit-encoded weights', () => {
+    // Block mode 0x51: 4x4 grid of weights with 3 levels, 26 bits. Packed trits 41 -> (1, 2, 0, 1, 0),
+    // 126 -> (2, 2, 2, 2, 2), 0 -> (0, 0, 0, 0, 0) and the 2 bits left of the last block, 2 -> (2).
+    const rgba = decodeASTC(createBlock(0x51, [[41, 8], [126, 8], [0, 8], [2, 2]]));
+    // Weights 0, 32 and 64
+    expect(gray(rgba)).toEqual([128, 255, 0, 128, 0, 255, 255, 255, 255, 255, 0, 0, 0, 0, 0, 255]);
+    expect(texel(rgba, 4, 0, 0)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('decodes quint-encoded weights', () => {
+    // Block mode 0x52: 4x4 grid of weights with 5 levels, 38 bits. Packed quints 79 -> (3, 1, 4), the rest 0.
+    const rgba = decodeASTC(createBlock(0x52, [[79, 7], [0, 31]]));
+    // Weights 48, 16 and 64
+    expect(gray(rgba)).toEqual([191, 64, 255, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('decodes LDR void extent blocks to a constant color', () => {
+    const block = new Uint8Array([0xfc, 0xfd, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x00, 0x80, 0x00, 0x40, 0x00, 0x00, 0xff, 0xff]);
+    const rgba = decodeASTC(block);
+    for (let i = 0; i < 16; i++) {
+      expect(texel(rgba, 4, i & 3, i >> 2)).toEqual([128, 64, 0, 255]);
+    }
+  });
+
+  it('decodes HDR blocks to the error color', () => {
+    const hdrVoidExtent = new Uint8Array([0xfc, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(texel(decodeASTC(hdrVoidExtent), 4, 0, 0)).toEqual(magenta);
+    // Endpoint mode 2 is HDR luminance
+    expect(texel(decodeASTC(createBlock(0x51, [], 2)), 4, 3, 3)).toEqual(magenta);
+  });
+});
+
+describe('FXT1', () => {
+  const decodeFXT1 = (block: Uint8Array) => decode(TranscoderTextureFormat.cTFFXT1_RGB, block, 8, 4);
+  /** Texel numbers run 0-15 over the left 4x4 half and 16-31 over the right half */
+  const texelNumber = (x: number, y: number) => (x >> 2) * 16 + y * 4 + (x & 3);
+
+  it('decodes CC_HI blocks: 7 interpolated colors and transparent', () => {
+    const block = new Uint8Array(16);
+    setBits(block, 96 + 10, 5, 31); // color 0 red
+    setBits(block, 111, 5, 31); // color 1 blue
+    setBits(block, texelNumber(1, 0) * 3, 3, 6);
+    setBits(block, texelNumber(2, 0) * 3, 3, 3);
+    setBits(block, texelNumber(4, 0) * 3, 3, 7);
+    const rgba = decodeFXT1(block);
+    expect(texel(rgba, 8, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(texel(rgba, 8, 1, 0)).toEqual([0, 0, 255, 255]);
+    expect(texel(rgba, 8, 2, 0)).toEqual([128, 0, 128, 255]);
+    expect(texel(rgba, 8, 4, 0)).toEqual([0, 0, 0, 0]);
+    expect(texel(rgba, 8, 4, 1)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('decodes CC_CHROMA blocks: 4 colors without interpolation', () => {
+    const block = new Uint8Array(16);
+    setBits(block, 125, 3, 2);
+    setBits(block, 64, 15, 0x7fff); // white
+    setBits(block, 94 + 10, 5, 31); // red
+    setBits(block, 109 + 5, 5, 31); // green
+    [0, 1, 2, 3].forEach((index, x) => setBits(block, texelNumber(x, 0) * 2, 2, index));
+    setBits(block, texelNumber(7, 3) * 2, 2, 2);
+    const rgba = decodeFXT1(block);
+    expect([0, 1, 2, 3].map((x) => texel(rgba, 8, x, 0))).toEqual([
+      [255, 255, 255, 255],
+      [0, 0, 0, 255],
+      [255, 0, 0, 255],
+      [0, 255, 0, 255],
+    ]);
+    expect(texel(rgba, 8, 7, 3)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('decodes CC_MIXED blocks: RGB565 pairs per half with the derived green bit', () => {
+    const block = new Uint8Array(16);
+    setBits(block, 125, 3, 0b101); // CC_MIXED, left half green LSB 1, right half 0, alpha bit 124 clear
+    setBits(block, 64 + 10, 5, 31); // left color 0 red
+    setBits(block, 64 + 20, 5, 31); // left color 1 green, its LSB from bit 125
+    setBits(block, texelNumber(0, 0) * 2, 2, 2);
+    setBits(block, texelNumber(1, 0) * 2, 2, 3);
+    setBits(block, texelNumber(2, 0) * 2, 2, 1);
+    const rgba = decodeFXT1(block);
+    // The MSB of texel 0's index (1) flips the green LSB of color 0 to 0
+    expect(texel(rgba, 8, 0, 0)).toEqual([85, 170, 0, 255]);
+    expect(texel(rgba, 8, 1, 0)).toEqual([0, 255, 0, 255]);
+    expect(texel(rgba, 8, 2, 0)).toEqual([170, 85, 0, 255]);
+    expect(texel(rgba, 8, 4, 0)).toEqual([0, 0, 0, 255]);
+  });
+});
+
+describe('PVRTC', () => {
+  const levels = [0, 95, 159, 255];
+
+  /**
+   * Blocks with opaque black color A and white color B everywhere, so each texel shows its own modulation.
+   * Block k stores k & 3 as the modulation of its first texel and k >> 2 as that of its second.
+   */
+  function createBlocks(count: number): Uint8Array {
+    const data = new Uint8Array(count * 8);
+    const view = new DataView(data.buffer);
+    for (let k = 0; k < count; k++) {
+      view.setUint32(k * 8, (k & 3) | ((k >> 2) << 2), true);
+      view.setUint32(k * 8 + 4, 0xffff8000, true);
+    }
+    return data;
+  }
+
+  /** The stored block index of each block, read back from the decoded image as [by][bx] */
+  function getBlockOrder(rgba: Uint8Array, width: number, height: number): number[][] {
+    const order: number[][] = [];
+    for (let by = 0; by < height / 4; by++) {
+      order.push([]);
+      for (let bx = 0; bx < width / 4; bx++) {
+        const low = levels.indexOf(texel(rgba, width, bx * 4, by * 4)[0]);
+        const high = levels.indexOf(texel(rgba, width, bx * 4 + 1, by * 4)[0]);
+        order[by].push(low | (high << 2));
+      }
+    }
+    return order;
+  }
+
+  it('reads PVRTC1 blocks in twiddled order on a square grid', () => {
+    const rgba = decode(TranscoderTextureFormat.cTFPVRTC1_4_RGBA, createBlocks(4), 8, 8);
+    expect(getBlockOrder(rgba, 8, 8)).toEqual([[0, 2], [1, 3]]);
+    expect(texel(rgba, 8, 2, 2)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('appends the high bits of the longer axis for wide block grids', () => {
+    const rgba = decode(TranscoderTextureFormat.cTFPVRTC1_4_RGBA, createBlocks(8), 16, 8);
+    expect(getBlockOrder(rgba, 16, 8)).toEqual([[0, 2, 4, 6], [1, 3, 5, 7]]);
+  });
+
+  it('appends the high bits of the longer axis for tall block grids', () => {
+    const rgba = decode(TranscoderTextureFormat.cTFPVRTC1_4_RGBA, createBlocks(8), 8, 16);
+    expect(getBlockOrder(rgba, 8, 16)).toEqual([[0, 2], [1, 3], [4, 6], [5, 7]]);
+  });
+
+  it('reads PVRTC2 blocks in raster order', () => {
+    const rgba = decode(TranscoderTextureFormat.cTFPVRTC2_4_RGBA, createBlocks(8), 16, 8);
+    expect(getBlockOrder(rgba, 16, 8)).toEqual([[0, 1, 2, 3], [4, 5, 6, 7]]);
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, inflateSync } from 'node:zlib';
+import { writeDDS, writeKTX2, writePNG } from '../src/texture-writers';
+import { parseKTX2Container } from '../src/ktx2-container';
+import { KTX2ColorModel, KTX2TransferFunction } from '../src/data-format-descriptor';
+import { KTX2OrientationFlags } from '../src/key-value-data';
+import { TextureKind, TranscodedImage, TranscodedTexture, TranscoderTextureFormat } from '../src/types';
+
+interface TextureLayout {
+  format: TranscoderTextureFormat;
+  width: number;
+  height: number;
+  levelCount?: number;
+  layerCount?: number;
+  faceCount?: number;
+  kind?: TextureKind;
+  /** Byte size of an image of the given size */
+  imageByteLength: (width: number, height: number) => number;
+}
+
+const blocks = (bytesPerBlock: number) => (width: number, height: number) => Math.ceil(width / 4) * Math.ceil(height / 4) * bytesPerBlock;
+
+/** A texture whose image bytes are all 1 + level * 16 + layer * 6 + face, so every image can be told apart */
+function createTexture(layout: TextureLayout): TranscodedTexture {
+  const { format, width, height, levelCount = 1, layerCount = 1, faceCount = 1, kind = TextureKind.Texture2D } = layout;
+  const images: TranscodedImage[][][] = [];
+  let byteLength = 0;
+  for (let level = 0; level < levelCount; level++) {
+    const levelWidth = Math.max(1, width >> level);
+    const levelHeight = Math.max(1, height >> level);
+    images.push(Array.from({ length: layerCount }, (_, layer) => Array.from({ length: faceCount }, (_, face) => {
+      const data = new Uint8Array(layout.imageByteLength(levelWidth, levelHeight)).fill(1 + level * 16 + layer * 6 + face);
+      byteLength += data.length;
+      return { level, layer, face, width: levelWidth, height: levelHeight, data };
+    })));
+  }
+  return { format, kind, width, height, levelCount, layerCount, faceCount, images, byteLength };
+}
+
+/** The first byte of each image in file order, identifying it */
+function imageTags(file: Uint8Array, start: number, imageByteLengths: number[]): number[] {
+  const tags: number[] = [];
+  let offset = start;
+  for (const length of imageByteLengths) {
+    tags.push(file[offset]);
+    expect(file.subarray(offset, offset + length).every((value) => value === file[offset])).toBe(true);
+    offset += length;
+  }
+  expect(offset).toBe(file.length);
+  return tags;
+}
+
+describe('writeKTX2', () => {
+  const bc7 = createTexture({ format: TranscoderTextureFormat.cTFBC7_RGBA, width: 8, height: 4, levelCount: 3, imageByteLength: blocks(16) });
+
+  it('writes the header', () => {
+    const { header, isComplete, sgdByteLength } = parseKTX2Container(writeKTX2(bc7, { srgb: true }));
+    expect(isComplete).toBe(true);
+    expect(header).toMatchObject({
+      hasValidIdentifier: true,
+      vkFormat: 146, // VK_FORMAT_BC7_SRGB_BLOCK
+      typeSize: 1,
+      width: 8,
+      height: 4,
+      depth: 0,
+      layers: 0,
+      faces: 1,
+      levels: 3,
+      supercompressionScheme: 0,
+      dfdByteOffset: 80 + 3 * 24,
+    });
+    expect(sgdByteLength).toBe(0);
+    expect(parseKTX2Container(writeKTX2(bc7)).header?.vkFormat).toBe(145); // VK_FORMAT_BC7_UNORM_BLOCK
+  });
+
+  it('stores the levels smallest first, aligned to the texel block size', () => {
+    const file = writeKTX2(bc7);
+    const { levels } = parseKTX2Container(file);
+    expect(levels.map((entry) => entry.byteLength)).toEqual([32, 16, 16]);
+    expect(levels.map((entry) => entry.uncompressedByteLength)).toEqual([32, 16, 16]);
+    expect(levels[2].byteOffset).toBeLessThan(levels[1].byteOffset);
+    expect(levels[1].byteOffset).toBeLessThan(levels[0].byteOffset);
+    levels.forEach((entry, level) => {
+      expect(entry.byteOffset % 16).toBe(0);
+      expect(file.subarray(entry.byteOffset, entry.byteOffset + entry.byteLength)).toEqual(bc7.images[level][0][0].data);
+    });
+    expect(levels[0].byteOffset + levels[0].byteLength).toBe(file.length);
+  });
+
+  it('aligns levels to lcm(texel block size, 4)', () => {
+    // RGB half float texels take 6 bytes, so levels start on multiples of 12
+    const texture = createTexture({ format: TranscoderTextureFormat.cTFRGB_HALF, width: 3, height: 1, levelCount: 2, imageByteLength: (w, h) => w * h * 6 });
+    const { header, levels } = parseKTX2Container(writeKTX2(texture));
+    expect(header?.typeSize).toBe(2);
+    for (const entry of levels) {
+      expect(entry.byteOffset % 12).toBe(0);
+    }
+    expect(levels.map((entry) => entry.byteLength)).toEqual([18, 6]);
+  });
+
+  it('writes the data format descriptor', () => {
+    const dfd = parseKTX2Container(writeKTX2(bc7, { srgb: true })).dataFormatDescriptor!;
+    expect(dfd.colorModel).toBe(KTX2ColorModel.BC7);
+    expect(dfd.transferFunction).toBe(KTX2TransferFunction.SRGB);
+    expect(dfd.texelBlockDimension).toEqual([4, 4, 1, 1]);
+    expect(dfd.bytesPlane[0]).toBe(16);
+    expect(dfd.samples).toHaveLength(1);
+    expect(dfd.samples[0]).toMatchObject({ bitOffset: 0, bitLength: 128, sampleLower: 0, sampleUpper: 0xffffffff });
+    expect(parseKTX2Container(writeKTX2(bc7)).dataFormatDescriptor?.transferFunction).toBe(KTX2TransferFunction.LINEAR);
+  });
+
+  it('keeps alpha linear in sRGB RGBA32 descriptors', () => {
+    const texture = createTexture({ format: TranscoderTextureFormat.cTFRGBA32, width: 2, height: 2, imageByteLength: (w, h) => w * h * 4 });
+    const dfd = parseKTX2Container(writeKTX2(texture, { srgb: true })).dataFormatDescriptor!;
+    expect(dfd.colorModel).toBe(KTX2ColorModel.RGBSDA);
+    expect(dfd.texelBlockDimension).toEqual([1, 1, 1, 1]);
+    expect(dfd.samples.map((sample) => [sample.channelId, sample.bitOffset, sample.bitLength, sample.isLinear]))
+      .toEqual([[0, 0, 8, false], [1, 8, 8, false], [2, 16, 8, false], [15, 24, 8, true]]);
+  });
+
+  it('writes the key/value data, sorted by key', () => {
+    const defaults = parseKTX2Container(writeKTX2(bc7)).keyValueData;
+    expect([...defaults.keys()]).toEqual(['KTXwriter']);
+    expect(defaults.writer).toBe('basis-universal-transcoder');
+
+    const keyValueData = new Map<string, Uint8Array | string>([
+      ['KTXwriter', 'tests'],
+      ['KTXorientation', 'rd'],
+      ['custom', new Uint8Array([1, 2, 3])],
+    ]);
+    const file = writeKTX2(bc7, { keyValueData });
+    const { header, keyValueData: kvd } = parseKTX2Container(file);
+    expect([...kvd.keys()]).toEqual(['KTXorientation', 'KTXwriter', 'custom']);
+    expect(kvd.writer).toBe('tests');
+    expect(kvd.orientation).toBe(KTX2OrientationFlags.None);
+    expect(kvd.get('custom')).toEqual(new Uint8Array([1, 2, 3]));
+    // Every entry is padded to 4 bytes
+    expect(header!.kvdByteLength % 4).toBe(0);
+  });
+
+  it('writes arrays and cubemaps with their images in layer then face order', () => {
+    const texture = createTexture({
+      format: TranscoderTextureFormat.cTFBC1_RGB, width: 4, height: 4, layerCount: 2, faceCount: 6, kind: TextureKind.CubemapArray, imageByteLength: blocks(8),
+    });
+    const file = writeKTX2(texture);
+    const { header, levels } = parseKTX2Container(file);
+    expect(header).toMatchObject({ layers: 2, faces: 6, levels: 1 });
+    expect(levels[0].byteLength).toBe(12 * 8);
+    expect(imageTags(file, levels[0].byteOffset, Array(12).fill(8))).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it('rejects formats without a VkFormat', () => {
+    const texture = createTexture({ format: TranscoderTextureFormat.cTFATC_RGB, width: 4, height: 4, imageByteLength: blocks(8) });
+    expect(() => writeKTX2(texture)).toThrow(/cannot be stored in KTX2 files/);
+  });
+});
+
+describe('writeDDS', () => {
+  it('writes the header and DX10 header of a mipmapped BC7 texture', () => {
+    const texture = createTexture({ format: TranscoderTextureFormat.cTFBC7_RGBA, width: 8, height: 4, levelCount: 3, imageByteLength: blocks(16) });
+    const file = writeDDS(texture, { srgb: true });
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+    const u32 = (offset: number) => view.getUint32(offset, true);
+    expect(new TextDecoder().decode(file.subarray(0, 4))).toBe('DDS ');
+    expect(u32(4)).toBe(124);
+    expect(u32(8)).toBe(0x1 | 0x2 | 0x4 | 0x1000 | 0x20000 | 0x80000); // CAPS, HEIGHT, WIDTH, PIXELFORMAT, MIPMAPCOUNT, LINEARSIZE
+    expect(u32(12)).toBe(4);
+    expect(u32(16)).toBe(8);
+    expect(u32(20)).toBe(32); // linear size of level 0
+    expect(u32(28)).toBe(3);
+    expect(u32(76)).toBe(32);
+    expect(u32(80)).toBe(0x4); // DDPF_FOURCC
+    expect(new TextDecoder().decode(file.subarray(84, 88))).toBe('DX10');
+    expect(u32(108)).toBe(0x1000 | 0x8 | 0x400000); // TEXTURE, COMPLEX, MIPMAP
+    expect(u32(112)).toBe(0);
+    expect(u32(128)).toBe(99); // DXGI_FORMAT_BC7_UNORM_SRGB
+    expect(u32(132)).toBe(3); // D3D10_RESOURCE_DIMENSION_TEXTURE2D
+    expect(u32(136)).toBe(0);
+    expect(u32(140)).toBe(1);
+    expect(imageTags(file, 148, [32, 16, 16])).toEqual([1, 17, 33]);
+    expect(new DataView(writeDDS(texture).buffer).getUint32(128, true)).toBe(98); // DXGI_FORMAT_BC7_UNORM
+  });
+
+  it('writes cubemaps with a pitch and the cubemap flags', () => {
+    const texture = createTexture({
+      format: TranscoderTextureFormat.cTFRGBA32, width: 2, height: 2, faceCount: 6, kind: TextureKind.Cubemap, imageByteLength: (w, h) => w * h * 4,
+    });
+    const file = writeDDS(texture);
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+    const u32 = (offset: number) => view.getUint32(offset, true);
+    expect(u32(8)).toBe(0x1 | 0x2 | 0x4 | 0x8 | 0x1000); // CAPS, HEIGHT, WIDTH, PITCH, PIXELFORMAT
+    expect(u32(20)).toBe(8); // row pitch
+    expect(u32(108)).toBe(0x1000 | 0x8);
+    expect(u32(112)).toBe(0xfe00); // DDSCAPS2_CUBEMAP and all faces
+    expect(u32(128)).toBe(28); // DXGI_FORMAT_R8G8B8A8_UNORM
+    expect(u32(136)).toBe(0x4); // D3D11_RESOURCE_MISC_TEXTURECUBE
+    expect(u32(140)).toBe(1);
+    expect(imageTags(file, 148, Array(6).fill(16))).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('stores each array layer with its full mip chain', () => {
+    const texture = createTexture({
+      format: TranscoderTextureFormat.cTFBC1_RGB, width: 8, height: 8, levelCount: 2, layerCount: 2, kind: TextureKind.Texture2DArray, imageByteLength: blocks(8),
+    });
+    const file = writeDDS(texture);
+    expect(new DataView(file.buffer).getUint32(140, true)).toBe(2);
+    expect(imageTags(file, 148, [32, 8, 32, 8])).toEqual([1, 17, 7, 23]);
+  });
+
+  it('rejects formats without a DXGI format', () => {
+    const texture = createTexture({ format: TranscoderTextureFormat.cTFETC1_RGB, width: 4, height: 4, imageByteLength: blocks(8) });
+    expect(() => writeDDS(texture)).toThrow(/cannot be stored in DDS files/);
+  });
+});
+
+describe('writePNG', () => {
+  const texture = createTexture({ format: TranscoderTextureFormat.cTFRGBA32, width: 3, height: 2, levelCount: 2, imageByteLength: (w, h) => w * h * 4 });
+  texture.images[0][0][0].data.set([255, 0, 0, 255, 0, 255, 0, 128]);
+
+  /** Split a PNG file into its chunks, checking each CRC */
+  function readChunks(file: Uint8Array): { type: string; data: Uint8Array }[] {
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+    const chunks: { type: string; data: Uint8Array }[] = [];
+    let offset = 8;
+    while (offset < file.length) {
+      const length = view.getUint32(offset);
+      const type = new TextDecoder().decode(file.subarray(offset + 4, offset + 8));
+      const data = file.subarray(offset + 8, offset + 8 + length);
+      expect(view.getUint32(offset + 8 + length), `${type} CRC`).toBe(crc32(file.subarray(offset + 4, offset + 8 + length)));
+      chunks.push({ type, data });
+      offset += 12 + length;
+    }
+    expect(offset).toBe(file.length);
+    return chunks;
+  }
+
+  it('writes the signature, IHDR, IDAT and IEND with valid CRCs', () => {
+    const file = writePNG(texture);
+    expect(Array.from(file.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const chunks = readChunks(file);
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+
+    const ihdr = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset, chunks[0].data.byteLength);
+    expect(chunks[0].data.length).toBe(13);
+    expect(ihdr.getUint32(0)).toBe(3);
+    expect(ihdr.getUint32(4)).toBe(2);
+    // Bit depth 8, color type 6 (RGBA), deflate, adaptive filtering, no interlace
+    expect(Array.from(chunks[0].data.subarray(8))).toEqual([8, 6, 0, 0, 0]);
+    expect(chunks[2].data.length).toBe(0);
+  });
+
+  it('stores the pixel rows unfiltered in a valid zlib stream', () => {
+    const [, idat] = readChunks(writePNG(texture));
+    const raw = new Uint8Array(inflateSync(idat.data));
+    const pixels = texture.images[0][0][0].data;
+    expect(raw.length).toBe(2 * (1 + 3 * 4));
+    expect(raw[0]).toBe(0);
+    expect(raw.subarray(1, 13)).toEqual(pixels.subarray(0, 12));
+    expect(raw[13]).toBe(0);
+    expect(raw.subarray(14)).toEqual(pixels.subarray(12));
+  });
+
+  it('writes the selected level', () => {
+    const [ihdr, idat] = readChunks(writePNG(texture, { level: 1 }));
+    expect(new DataView(ihdr.data.buffer, ihdr.data.byteOffset).getUint32(0)).toBe(1);
+    expect(Array.from(inflateSync(idat.data))).toEqual([0, 17, 17, 17, 17]);
+    expect(() => writePNG(texture, { level: 2 })).toThrow('The texture has no image at level 2, layer 0, face 0.');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getWebGLTextureFormat } from '../src/webgl';
+import { TranscoderTextureFormat } from '../src/types';
+
+const ETC1 = TranscoderTextureFormat.cTFETC1_RGB;
+const COMPRESSED_RGB_ETC1_WEBGL = 0x8D64;
+const COMPRESSED_RGB8_ETC2 = 0x9274;
+const COMPRESSED_SRGB8_ETC2 = 0x9275;
+
+describe('getWebGLTextureFormat', () => {
+  it('uploads linear ETC1 with the ETC1 enum when etc1 is available or unknown', () => {
+    expect(getWebGLTextureFormat(ETC1, false)?.internalFormat).toBe(COMPRESSED_RGB_ETC1_WEBGL);
+    expect(getWebGLTextureFormat(ETC1, false, true, { etc1: true })?.internalFormat).toBe(COMPRESSED_RGB_ETC1_WEBGL);
+  });
+
+  it('uploads ETC1 with the ETC2 enums without etc1 or for sRGB', () => {
+    expect(getWebGLTextureFormat(ETC1, false, true, { etc2: true })?.internalFormat).toBe(COMPRESSED_RGB8_ETC2);
+    expect(getWebGLTextureFormat(ETC1, true, true, { etc1: true, etc2: true })?.internalFormat).toBe(COMPRESSED_SRGB8_ETC2);
+  });
+
+  it('rejects ETC1 when the required ETC2 enum is not supported', () => {
+    expect(getWebGLTextureFormat(ETC1, false, true, {})).toBeNull();
+    expect(getWebGLTextureFormat(ETC1, true, true, { etc1: true })).toBeNull();
+  });
+
+  it('has no upload path for ATC', () => {
+    expect(getWebGLTextureFormat(TranscoderTextureFormat.cTFATC_RGB, false)).toBeNull();
+    expect(getWebGLTextureFormat(TranscoderTextureFormat.cTFATC_RGBA, false)).toBeNull();
+  });
+});
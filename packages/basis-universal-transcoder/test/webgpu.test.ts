@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { detectBestFormatWebGPU, getWebGPUCapabilities, toGPUTextureFormat, WebGPUTextureFormat } from '../src/webgpu';
+import { BasisTextureFormat, TranscoderTextureFormat as F } from '../src/types';
+
+const BC = 'texture-compression-bc';
+const ETC2 = 'texture-compression-etc2';
+const ASTC = 'texture-compression-astc';
+
+describe('detectBestFormatWebGPU', () => {
+  it.each([
+    { features: [], uastc: F.cTFRGBA32, uastcAlpha: F.cTFRGBA32, etc1s: F.cTFRGBA32, etc1sAlpha: F.cTFRGBA32 },
+    { features: [BC], uastc: F.cTFBC7_RGBA, uastcAlpha: F.cTFBC7_RGBA, etc1s: F.cTFBC1_RGB, etc1sAlpha: F.cTFBC3_RGBA },
+    { features: [ETC2], uastc: F.cTFETC1_RGB, uastcAlpha: F.cTFETC2_RGBA, etc1s: F.cTFETC1_RGB, etc1sAlpha: F.cTFETC2_RGBA },
+    { features: [ASTC], uastc: F.cTFASTC_4x4_RGBA, uastcAlpha: F.cTFASTC_4x4_RGBA, etc1s: F.cTFASTC_4x4_RGBA, etc1sAlpha: F.cTFASTC_4x4_RGBA },
+    { features: [BC, ETC2, ASTC], uastc: F.cTFASTC_4x4_RGBA, uastcAlpha: F.cTFASTC_4x4_RGBA, etc1s: F.cTFETC1_RGB, etc1sAlpha: F.cTFETC2_RGBA },
+    { features: [BC, ASTC], uastc: F.cTFASTC_4x4_RGBA, uastcAlpha: F.cTFASTC_4x4_RGBA, etc1s: F.cTFBC1_RGB, etc1sAlpha: F.cTFBC3_RGBA },
+  ])('picks the format for features $features', ({ features, uastc, uastcAlpha, etc1s, etc1sAlpha }) => {
+    const source = new Set(features);
+    expect(detectBestFormatWebGPU(source)).toBe(uastc);
+    expect(detectBestFormatWebGPU(source, { hasAlpha: true })).toBe(uastcAlpha);
+    expect(detectBestFormatWebGPU(source, { basisFormat: BasisTextureFormat.cETC1S })).toBe(etc1s);
+    expect(detectBestFormatWebGPU(source, { basisFormat: BasisTextureFormat.cETC1S, hasAlpha: true })).toBe(etc1sAlpha);
+  });
+
+  it('reads the features of an adapter or device', () => {
+    const adapter = { features: new Set([ETC2]) };
+    expect(detectBestFormatWebGPU(adapter)).toBe(F.cTFETC1_RGB);
+    expect(getWebGPUCapabilities(adapter)).toMatchObject({ etc1: true, etc2: true, astc: false, bptc: false, s3tc: false, rgtc: false });
+  });
+
+  it('accepts any iterable of feature names', () => {
+    expect(detectBestFormatWebGPU([BC])).toBe(F.cTFBC7_RGBA);
+    expect(detectBestFormatWebGPU(new Map([[ASTC, true]]).keys())).toBe(F.cTFASTC_4x4_RGBA);
+  });
+
+  it('never selects formats WebGPU lacks', () => {
+    const capabilities = getWebGPUCapabilities(new Set([BC, ETC2, ASTC]));
+    expect(capabilities).toMatchObject({ astcHDR: false, pvrtc: false, halfFloat: true, rgb9e5: true });
+  });
+});
+
+describe('toGPUTextureFormat', () => {
+  const cases: [F, WebGPUTextureFormat, WebGPUTextureFormat][] = [
+    [F.cTFETC1_RGB, 'etc2-rgb8unorm', 'etc2-rgb8unorm-srgb'],
+    [F.cTFETC2_RGBA, 'etc2-rgba8unorm', 'etc2-rgba8unorm-srgb'],
+    [F.cTFETC2_EAC_R11, 'eac-r11unorm', 'eac-r11unorm'],
+    [F.cTFETC2_EAC_RG11, 'eac-rg11unorm', 'eac-rg11unorm'],
+    [F.cTFBC1_RGB, 'bc1-rgba-unorm', 'bc1-rgba-unorm-srgb'],
+    [F.cTFBC3_RGBA, 'bc3-rgba-unorm', 'bc3-rgba-unorm-srgb'],
+    [F.cTFBC4_R, 'bc4-r-unorm', 'bc4-r-unorm'],
+    [F.cTFBC5_RG, 'bc5-rg-unorm', 'bc5-rg-unorm'],
+    [F.cTFBC6H, 'bc6h-rgb-ufloat', 'bc6h-rgb-ufloat'],
+    [F.cTFBC7_RGBA, 'bc7-rgba-unorm', 'bc7-rgba-unorm-srgb'],
+    [F.cTFASTC_4x4_RGBA, 'astc-4x4-unorm', 'astc-4x4-unorm-srgb'],
+    [F.cTFRGBA32, 'rgba8unorm', 'rgba8unorm-srgb'],
+    [F.cTFRGBA_HALF, 'rgba16float', 'rgba16float'],
+    [F.cTFRGB_9E5, 'rgb9e5ufloat', 'rgb9e5ufloat'],
+  ];
+
+  it.each(cases)('maps format %i to %s, or %s for sRGB', (format, linear, srgb) => {
+    expect(toGPUTextureFormat(format, false)).toBe(linear);
+    expect(toGPUTextureFormat(format, true)).toBe(srgb);
+  });
+
+  it.each([
+    F.cTFPVRTC1_4_RGB, F.cTFPVRTC1_4_RGBA, F.cTFPVRTC2_4_RGB, F.cTFPVRTC2_4_RGBA,
+    F.cTFATC_RGB, F.cTFATC_RGBA, F.cTFFXT1_RGB, F.cTFASTC_HDR_4x4_RGBA, F.cTFASTC_HDR_6x6_RGBA,
+    F.cTFRGB565, F.cTFBGR565, F.cTFRGBA4444, F.cTFRGB_HALF,
+  ])('has no WebGPU format for format %i', (format) => {
+    expect(toGPUTextureFormat(format, false)).toBeNull();
+    expect(toGPUTextureFormat(format, true)).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Worker } from 'node:worker_threads';
+import { TranscoderWorkerPool } from '../src/worker-pool';
+import { TranscoderTextureFormat } from '../src/types';
+
+/**
+ * Stand-in for a worker running exposeTranscoderWorker(). The first byte of the request data
+ * selects its behaviour, the second is echoed back as the result's width to identify the job.
+ */
+const workerScript = `
+const { parentPort } = require('node:worker_threads');
+const held = [];
+const respond = (request) => parentPort.postMessage({ type: 'result', id: request.id, result: { width: new Uint8Array(request.data)[1] } });
+parentPort.on('message', (message) => {
+  if (message.type === 'release') {
+    held.splice(0).forEach(respond);
+  } else if (message.type === 'transcode') {
+    const command = new Uint8Array(message.data)[0];
+    if (command === 0) respond(message);
+    if (command === 1) held.push(message);
+    if (command === 2) process.exit(3);
+  }
+});
+`;
+
+const RESPOND = 0;
+const HOLD = 1;
+const EXIT = 2;
+
+const format = TranscoderTextureFormat.cTFRGBA32;
+
+let pool: TranscoderWorkerPool | null = null;
+let workers: Worker[] = [];
+
+function createPool(concurrency: number): TranscoderWorkerPool {
+  workers = [];
+  pool = new TranscoderWorkerPool({
+    concurrency,
+    createWorker: () => {
+      const worker = new Worker(workerScript, { eval: true });
+      workers.push(worker);
+      return worker;
+    },
+  });
+  return pool;
+}
+
+function transcode(command: number, tag: number): Promise<number> {
+  return pool!.transcode(new Uint8Array([command, tag]), format).then((texture) => texture.width);
+}
+
+afterEach(() => {
+  pool?.terminate();
+  pool = null;
+});
+
+describe('TranscoderWorkerPool', () => {
+  it('queues requests beyond the concurrency and dispatches them as workers free up', async () => {
+    const pool = createPool(2);
+    const first = transcode(HOLD, 1);
+    const second = transcode(HOLD, 2);
+    const third = transcode(RESPOND, 3);
+    expect(pool.activeCount).toBe(2);
+    expect(pool.queuedCount).toBe(1);
+    expect(workers).toHaveLength(2);
+
+    workers[0].postMessage({ type: 'release' });
+    expect(await first).toBe(1);
+    // The third request runs on the freed worker
+    expect(await third).toBe(3);
+    expect(pool.queuedCount).toBe(0);
+    expect(pool.activeCount).toBe(1);
+
+    workers[1].postMessage({ type: 'release' });
+    expect(await second).toBe(2);
+    expect(pool.activeCount).toBe(0);
+    expect(workers).toHaveLength(2);
+  });
+
+  it('rejects queued and running requests on terminate()', async () => {
+    const pool = createPool(1);
+    const running = transcode(HOLD, 1);
+    const queued = transcode(HOLD, 2);
+    expect(pool.queuedCount).toBe(1);
+
+    pool.terminate();
+    await expect(running).rejects.toThrow('TranscoderWorkerPool terminated.');
+    await expect(queued).rejects.toThrow('TranscoderWorkerPool terminated.');
+    await expect(transcode(RESPOND, 3)).rejects.toThrow('TranscoderWorkerPool already terminated.');
+    expect(pool.activeCount).toBe(0);
+    expect(pool.queuedCount).toBe(0);
+  });
+
+  it('rejects the request of a worker that exits and spawns a new worker for the next one', async () => {
+    createPool(1);
+    const crashing = transcode(EXIT, 1);
+    const next = transcode(RESPOND, 2);
+
+    await expect(crashing).rejects.toThrow('Transcoder worker exited with code 3');
+    expect(await next).toBe(2);
+    expect(workers).toHaveLength(2);
+  });
+});
@@ -13,7 +13,12 @@ export default defineConfig({
   base: './',
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        node: resolve(__dirname, 'src/node.ts'),
+        cli: resolve(__dirname, 'src/cli.ts'),
+        three: resolve(__dirname, 'src/three.ts'),
+      },
       formats: ['es'],
     },
     sourcemap: true,
@@ -29,8 +34,8 @@ export default defineConfig({
         compact: false,
         indent: '  ',
       },
-      // 保持所有依赖内联
-      external: [],
+      // 保持所有依赖内联，Node.js 内置模块和 three 除外
+      external: [/^node:/, /^three$/],
       // 严格保持入口签名
       preserveEntrySignatures: 'strict',
     }
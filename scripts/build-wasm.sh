@@ -52,6 +52,37 @@ else
     echo "Warning: basis_capi_transcoder.wasm not found, copy operation skipped"
 fi
 
+# Build an additional variant in its own directory
+# $1: variant name, also the suffix of the WASM file; remaining arguments: extra CMake options
+build_variant() {
+    local variant="$1"
+    shift
+    echo "Building $variant variant..."
+    mkdir -p "../build-$variant"
+    (
+        cd "../build-$variant"
+        emcmake cmake .. \
+            -DCMAKE_BUILD_TYPE=Release \
+            -DKTX2=TRUE \
+            -DKTX2_ZSTANDARD=TRUE \
+            "$@"
+        emmake make -j$(nproc)
+    )
+
+    # The variants share the patched JS runtime, which only works while their WASM imports match
+    if ! cmp -s basis_capi_transcoder.js "../build-$variant/basis_capi_transcoder.js"; then
+        echo "Warning: the $variant variant's JS runtime differs from the default one and may not load with it"
+    fi
+    cp "../build-$variant/basis_capi_transcoder.wasm" "$PACKAGES_PUBLIC_DIR/basis_capi_transcoder_$variant.wasm"
+    echo "Successfully copied basis_capi_transcoder_$variant.wasm to $PACKAGES_PUBLIC_DIR/"
+}
+
+# HDR variant: UASTC HDR 4x4 / ASTC HDR 6x6 input
+build_variant hdr -DUASTC_HDR=TRUE
+
+# Full variant: HDR input plus every target format (ATC, FXT1, PVRTC2, ETC2 EAC R11/RG11)
+build_variant full -DUASTC_HDR=TRUE -DALL_TARGET_FORMATS=TRUE
+
 echo "Build completed successfully!"
 echo ""
 echo "Output files:"
@@ -59,6 +90,8 @@ echo "  - build/basis_capi_transcoder.js (original Emscripten runtime)"
 echo "  - build/basis_capi_transcoder_patched.js (custom async instantiation runtime)"
 echo "  - build/basis_capi_transcoder.wasm"
 echo "  - packages/basis-universal-transcoder/public/basis_capi_transcoder.wasm (copied)"
+echo "  - packages/basis-universal-transcoder/public/basis_capi_transcoder_hdr.wasm (HDR variant, copied)"
+echo "  - packages/basis-universal-transcoder/public/basis_capi_transcoder_full.wasm (full variant, copied)"
 echo ""
 echo "Runtime behavior differences:"
 echo "  Original version:"